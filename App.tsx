@@ -1,59 +1,34 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { CenterStage } from './components/CenterStage';
 import { RightPanel } from './components/RightPanel';
-import { PatientContextData, AudioFile, AnalysisStatus, AIFilterConfig, RecordingLocation, RegionData } from './types';
-import { parseLabelString } from './components/LabelControlZone';
+import { PatientContextData, AudioFile, AnalysisStatus, AIFilterConfig, RegionData, ExaminationRecording, AnalysisSession, FileLoadStatus } from './types';
+import { parseLabelString } from './utils/labelFormats';
+import { parseAIRegions } from './utils/analysis';
+import { buildExamination, summarizeSite } from './utils/examination';
+import { normalizeFilterConfig } from './utils/filterChain';
+import { saveSession, loadSessionAudio, summarizeSession } from './utils/sessionStore';
+import { parseICBHIMetadata, parsePatientTable, mergePatientTables, ICBHIPatientTable, ICBHIPatientRecord } from './utils/icbhi';
+import { getAudioBlob, revokeAudioUrl } from './utils/audioDecode';
 
-// --- UTILITY: SMART METADATA PARSER ---
-const parseICBHIMetadata = (fileName: string): Partial<PatientContextData> | null => {
-  // ICBHI Standard: [PatientID]_[Index]_[Location]_[Mode]_[Equipment].wav
-  // Example: 157_1b1_Al_sc_Meditron.wav
-  
-  // Remove extension
-  const nameClean = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
-  const parts = nameClean.split('_');
-
-  // Basic validation: ICBHI filenames usually have 5 parts
-  if (parts.length < 5) return null;
-
-  const [patientId, index, locCode, modeCode, equipCode] = parts;
-
-  // 1. Map Location Codes
-  const locationMap: Record<string, string> = {
-    'Tc': RecordingLocation.TRACHEA,
-    'Al': RecordingLocation.ANTERIOR_LEFT,
-    'Ar': RecordingLocation.ANTERIOR_RIGHT,
-    'Pl': RecordingLocation.POSTERIOR_LEFT,
-    'Pr': RecordingLocation.POSTERIOR_RIGHT,
-    'Ll': RecordingLocation.LATERAL_LEFT,
-    'Lr': RecordingLocation.LATERAL_RIGHT,
-  };
-  const location = locationMap[locCode] || 'Unknown';
+const PATIENT_TABLE_STORAGE_KEY = 'lung-listener:icbhi-patients';
 
-  // 2. Map Acquisition Mode
-  const modeMap: Record<string, string> = {
-    'sc': 'Single Channel',
-    'mc': 'Multichannel'
-  };
-  const mode = modeMap[modeCode] || 'Unknown';
-
-  // 3. Map Equipment Codes
-  const equipMap: Record<string, string> = {
-    'AKGC417L': 'AKG C417L Microphone',
-    'LittC2SE': 'Littmann Classic II SE',
-    'Litt3200': 'Littmann 3200 Electronic',
-    'Meditron': 'WelchAllyn Meditron Master Elite'
-  };
-  const equipment = equipMap[equipCode] || equipCode; // Fallback to raw code if unknown
-
-  return {
-    id: patientId,
-    index: index,
-    location: location,
-    mode: mode,
-    equipment: equipment
-  };
+const EMPTY_PATIENT_RECORD: ICBHIPatientRecord = {
+  diagnosis: '',
+  age: '',
+  sex: '',
+  bmi: '',
+  childWeight: '',
+  childHeight: ''
+};
+
+const loadStoredPatientTable = (): ICBHIPatientTable => {
+  try {
+    const stored = localStorage.getItem(PATIENT_TABLE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    return {};
+  }
 };
 
 const App: React.FC = () => {
@@ -79,11 +54,33 @@ const App: React.FC = () => {
   const [aiFilterConfig, setAiFilterConfig] = useState<AIFilterConfig | null>(null);
   const [isFilterActive, setIsFilterActive] = useState(false);
 
+  // ICBHI diagnosis / demographic lookup, keyed by patient number (persisted across reloads)
+  const [patientTable, setPatientTable] = useState<ICBHIPatientTable>(loadStoredPatientTable);
+  // Outcome of the last table load, shown under "Load Tables"
+  const [patientTableStatus, setPatientTableStatus] = useState<FileLoadStatus | null>(null);
+
+  // Current examination: the patient's recordings across chest locations (body map)
+  const [examination, setExamination] = useState<ExaminationRecording[]>([]);
+  // AI regions per analyzed recording id; a recording without an entry has not been analyzed
+  const [aiRegionsByRecording, setAiRegionsByRecording] = useState<Record<string, RegionData[]>>({});
+  // AI transcript per analyzed recording id, restored when its site is selected again
+  const [aiTranscriptsByRecording, setAiTranscriptsByRecording] = useState<Record<string, string>>({});
+  const [examinationStatus, setExaminationStatus] = useState<FileLoadStatus | null>(null);
+
+  // Saved session of the open recording (only valid while that recording stays open)
+  const [savedSession, setSavedSession] = useState<{ id: string; fileUrl: string } | null>(null);
+  const previousAnalysisStatus = useRef(analysisStatus);
+  // Recording and patient of a reopened session: its saved patient fields are kept as they were
+  // (not re-filled from the file name or the patient tables) until another file or patient is chosen
+  const restoredSessionRef = useRef<{ fileUrl: string; patientId: string } | null>(null);
+
   // Theme State
   const [isDarkMode, setIsDarkMode] = useState(true);
 
   // --- EFFECT: AUTO-FILL METADATA ---
   useEffect(() => {
+    if (restoredSessionRef.current?.fileUrl === currentFile?.url) return;
+    restoredSessionRef.current = null;
     if (currentFile) {
       const metadata = parseICBHIMetadata(currentFile.name);
       if (metadata) {
@@ -99,6 +96,210 @@ const App: React.FC = () => {
     }
   }, [currentFile]);
 
+  // --- EFFECT: AUTO-FILL EXTENDED PATIENT FIELDS ---
+  // Once tables are loaded, the extended fields always follow the patient number
+  // (cleared when the patient is not in the tables, so values never leak across patients),
+  // except for a reopened session, which keeps the fields it was saved with.
+  useEffect(() => {
+    if (Object.keys(patientTable).length === 0) return;
+    if (restoredSessionRef.current?.patientId === patientData.id) return;
+    restoredSessionRef.current = null;
+    const record = patientTable[patientData.id];
+    setPatientData(prev => ({ ...prev, ...EMPTY_PATIENT_RECORD, ...record }));
+  }, [patientData.id, patientTable]);
+
+  useEffect(() => {
+    try {
+      if (Object.keys(patientTable).length > 0) {
+        localStorage.setItem(PATIENT_TABLE_STORAGE_KEY, JSON.stringify(patientTable));
+      } else {
+        localStorage.removeItem(PATIENT_TABLE_STORAGE_KEY);
+      }
+    } catch (e) {
+      console.warn("Could not persist patient tables", e);
+    }
+  }, [patientTable]);
+
+  // Handler for the ICBHI diagnosis / demographic files (any order, either or both)
+  const handleLoadPatientTables = async (files: File[]) => {
+    let table = patientTable;
+    const messages: string[] = [];
+    let hasError = false;
+    for (const file of files) {
+      let text: string;
+      try {
+        text = await file.text();
+      } catch (error) {
+        console.error(error);
+        messages.push(`${file.name}: could not be read`);
+        hasError = true;
+        continue;
+      }
+      const { kind, records, skipped } = parsePatientTable(text);
+      const count = Object.keys(records).length;
+      if (count === 0) {
+        messages.push(`${file.name}: no patient rows found`);
+        hasError = true;
+        continue;
+      }
+      messages.push(`${file.name}: ${count} ${kind} rows${skipped > 0 ? `, ${skipped} lines skipped` : ''}`);
+      table = mergePatientTables(table, records);
+    }
+    setPatientTable(table);
+    setPatientTableStatus({ text: messages.join(' · '), isError: hasError });
+  };
+
+  const handleClearPatientTables = () => {
+    setPatientTable({});
+    setPatientTableStatus(null);
+    setPatientData(prev => ({ ...prev, ...EMPTY_PATIENT_RECORD }));
+  };
+
+  // --- EFFECT: EXAMINATION SYNC ---
+  // Label edits on the open recording are kept on its examination entry
+  useEffect(() => {
+    if (!currentFile) return;
+    setExamination(prev => prev.some(r => r.file.url === currentFile.url)
+      ? prev.map(r => r.file.url === currentFile.url ? { ...r, clinicalRegions, labelFileName: currentLabelFile } : r)
+      : prev);
+  }, [clinicalRegions, currentLabelFile]);
+
+  useEffect(() => {
+    if (!currentFile || !aiAnalysisOutput) return;
+    setAiRegionsByRecording(prev => ({ ...prev, [currentFile.name]: parseAIRegions(aiAnalysisOutput) }));
+    setAiTranscriptsByRecording(prev => ({ ...prev, [currentFile.name]: aiAnalysisOutput }));
+  }, [aiAnalysisOutput]);
+
+  // Closing the recording in the editor closes the examination as well
+  useEffect(() => {
+    if (currentFile || examination.length === 0) return;
+    examination.forEach(r => revokeAudioUrl(r.file.url));
+    setExamination([]);
+    setAiRegionsByRecording({});
+    setAiTranscriptsByRecording({});
+    setExaminationStatus(null);
+  }, [currentFile]);
+
+  // --- SESSION PERSISTENCE ---
+  const activeSessionId = savedSession && currentFile && savedSession.fileUrl === currentFile.url ? savedSession.id : null;
+
+  const handleSaveSession = async () => {
+    if (!currentFile) return;
+    const audio = await getAudioBlob(currentFile.url);
+    const session: AnalysisSession = {
+      id: activeSessionId || `session-${Date.now()}`,
+      date: new Date().toISOString(),
+      patientId: patientData.id,
+      fileName: currentFile.name,
+      resultSummary: summarizeSession(clinicalRegions, aiAnalysisOutput ? parseAIRegions(aiAnalysisOutput) : undefined),
+      patientData,
+      clinicalRegions,
+      labelFileName: currentLabelFile,
+      aiTranscript: aiAnalysisOutput,
+      aiFilterConfig,
+      isFilterActive
+    };
+    await saveSession(session, audio);
+    setSavedSession({ id: session.id, fileUrl: currentFile.url });
+  };
+
+  // Auto-save when an analysis finishes (not when a reopened session restores the COMPLETED state)
+  useEffect(() => {
+    const finishedAnalysis = previousAnalysisStatus.current === AnalysisStatus.ANALYZING && analysisStatus === AnalysisStatus.COMPLETED;
+    previousAnalysisStatus.current = analysisStatus;
+    if (finishedAnalysis && currentFile) {
+      handleSaveSession().catch(e => console.error("Failed to auto-save session", e));
+    }
+  }, [analysisStatus]);
+
+  const handleReopenSession = async (session: AnalysisSession) => {
+    const audio = await loadSessionAudio(session.id);
+    if (!audio) {
+      alert("The audio for this session is missing from local storage.");
+      return;
+    }
+    const file: AudioFile = {
+      name: session.fileName,
+      size: audio.size,
+      type: audio.type || 'audio/wav',
+      lastModified: new Date(session.date).getTime(),
+      url: URL.createObjectURL(audio)
+    };
+    // The reopened recording replaces the open one and closes the examination (another patient's sites)
+    if (currentFile && !examination.some(r => r.file.url === currentFile.url)) revokeAudioUrl(currentFile.url);
+    examination.forEach(r => revokeAudioUrl(r.file.url));
+    setExamination([]);
+    setAiRegionsByRecording({});
+    setAiTranscriptsByRecording({});
+    setExaminationStatus(null);
+    restoredSessionRef.current = { fileUrl: file.url, patientId: session.patientData.id };
+    setCurrentFile(file);
+    setPatientData(session.patientData);
+    setClinicalRegions(session.clinicalRegions);
+    setCurrentLabelFile(session.labelFileName);
+    setAiAnalysisOutput(session.aiTranscript);
+    setAiFilterConfig(normalizeFilterConfig(session.aiFilterConfig));
+    setIsFilterActive(session.isFilterActive);
+    setAnalysisStatus(session.aiTranscript ? AnalysisStatus.COMPLETED : AnalysisStatus.IDLE);
+    setSavedSession({ id: session.id, fileUrl: file.url });
+  };
+
+  // The AI stream writes into the open recording's transcript, so sites are not switched while it runs
+  const isSiteSelectionLocked = analysisStatus === AnalysisStatus.ANALYZING;
+
+  const handleSelectRecording = (recording: ExaminationRecording, transcripts = aiTranscriptsByRecording) => {
+    if (currentFile?.url === recording.file.url || isSiteSelectionLocked) return;
+    setCurrentFile(recording.file);
+    setClinicalRegions(recording.clinicalRegions);
+    setCurrentLabelFile(recording.labelFileName);
+    // The analysis on screen belongs to the previous recording; this one's own analysis (if any) comes back
+    const transcript = transcripts[recording.id] || "";
+    setAiAnalysisOutput(transcript);
+    setAiFilterConfig(null);
+    setIsFilterActive(false);
+    setAnalysisStatus(transcript ? AnalysisStatus.COMPLETED : AnalysisStatus.IDLE);
+  };
+
+  // Handler for loading an examination (recordings + ICBHI label files) from Sidebar
+  const handleLoadExamination = async (files: File[]) => {
+    if (isSiteSelectionLocked) {
+      setExaminationStatus({ text: "Wait for the AI analysis to finish before loading an examination", isError: true });
+      return;
+    }
+    let result: Awaited<ReturnType<typeof buildExamination>>;
+    try {
+      result = await buildExamination(files);
+    } catch (error: any) {
+      console.error(error);
+      setExaminationStatus({ text: `Could not load the examination (${error.message})`, isError: true });
+      return;
+    }
+    const { recordings, ignored } = result;
+    if (recordings.length === 0) {
+      setExaminationStatus({ text: "No recordings found. Select the .wav files (and their .txt labels) of one patient.", isError: true });
+      return;
+    }
+
+    examination.forEach(r => revokeAudioUrl(r.file.url));
+    setExamination(recordings);
+    setAiRegionsByRecording({});
+    setAiTranscriptsByRecording({});
+    handleSelectRecording(recordings[0], {});
+    setExaminationStatus({
+      text: `${recordings.length} recording${recordings.length === 1 ? '' : 's'}${ignored.length > 0 ? ` · ignored ${ignored.join(', ')}` : ''}`,
+      isError: ignored.length > 0
+    });
+  };
+
+  // Without a loaded examination the body map shows the open recording on its own
+  const examinationSites: ExaminationRecording[] = examination.length > 0 || !currentFile
+    ? examination
+    : [{ id: currentFile.name, location: patientData.location, file: currentFile, labelFileName: currentLabelFile, clinicalRegions }];
+  const examinationFindings = Object.fromEntries(
+    examinationSites.map(r => [r.id, summarizeSite(r.clinicalRegions, aiRegionsByRecording[r.id])])
+  );
+  const currentRecordingId = examinationSites.find(r => r.file.url === currentFile?.url)?.id || null;
+
   // Handler for loading demo cases from Sidebar
   const handleLoadDemo = (audioFile: File, labelText: string, labelFileName: string) => {
     // 1. Set Audio File
@@ -131,6 +332,17 @@ const App: React.FC = () => {
           patientData={patientData} 
           setPatientData={setPatientData} 
           onLoadDemo={handleLoadDemo}
+          patientTableSize={Object.keys(patientTable).length}
+          patientTableStatus={patientTableStatus}
+          onLoadPatientTables={handleLoadPatientTables}
+          onClearPatientTables={handleClearPatientTables}
+          examination={examinationSites}
+          examinationFindings={examinationFindings}
+          currentRecordingId={currentRecordingId}
+          onSelectRecording={handleSelectRecording}
+          isSiteSelectionLocked={isSiteSelectionLocked}
+          onLoadExamination={handleLoadExamination}
+          examinationStatus={examinationStatus}
           isDarkMode={isDarkMode}
         />
       </aside>
@@ -142,11 +354,15 @@ const App: React.FC = () => {
           setCurrentFile={setCurrentFile}
           aiAnalysisOutput={aiAnalysisOutput}
           aiFilterConfig={aiFilterConfig}
+          setAiFilterConfig={setAiFilterConfig}
           // Pass down lifted state and setters
           clinicalRegions={clinicalRegions}
           setClinicalRegions={setClinicalRegions}
           currentLabelFile={currentLabelFile}
           setCurrentLabelFile={setCurrentLabelFile}
+          activeSessionId={activeSessionId}
+          onSaveSession={handleSaveSession}
+          onReopenSession={handleReopenSession}
           isDarkMode={isDarkMode}
         />
       </main>
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Download, X, Loader2 } from 'lucide-react';
+import { TimeSelection } from '../types';
+import { WavBitDepth, WavExportOptions, WavExportRange, WAV_BIT_DEPTHS, EXPORT_SAMPLE_RATES } from '../utils/wavExport';
+
+export interface AudioExportSource {
+  id: string;
+  label: string;   // e.g. "Raw", "Filtered"
+  url: string;
+}
+
+interface AudioExportDialogProps {
+  sources: AudioExportSource[];
+  initialSourceId: string;
+  duration: number;
+  initialSelection: TimeSelection | null;  // Prefills the time range (e.g. the current waveform selection)
+  regionCount: number;                     // Labeled regions available for per-region clips
+  onExport: (source: AudioExportSource, options: WavExportOptions) => Promise<void>;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+const RANGE_LABELS: Record<WavExportRange, string> = {
+  full: 'Full Recording',
+  selection: 'Time Range',
+  regions: 'Labeled Regions'
+};
+
+export const AudioExportDialog: React.FC<AudioExportDialogProps> = ({
+  sources,
+  initialSourceId,
+  duration,
+  initialSelection,
+  regionCount,
+  onExport,
+  onClose,
+  isDarkMode
+}) => {
+  const [sourceId, setSourceId] = useState(sources.some(s => s.id === initialSourceId) ? initialSourceId : sources[0]?.id);
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [mono, setMono] = useState(false);
+  const [sampleRate, setSampleRate] = useState<number | null>(null);
+  const [range, setRange] = useState<WavExportRange>(initialSelection ? 'selection' : 'full');
+  const [start, setStart] = useState(initialSelection ? initialSelection.start : 0);
+  const [end, setEnd] = useState(initialSelection ? initialSelection.end : duration);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const source = sources.find(s => s.id === sourceId);
+  const isRangeValid = range !== 'selection' || (end > start && start >= 0);
+  const canExport = !!source && isRangeValid && (range !== 'regions' || regionCount > 0) && !isExporting;
+
+  const handleExport = async () => {
+    if (!source || !canExport) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await onExport(source, { bitDepth, mono, sampleRate, range, selection: { start, end } });
+      onClose();
+    } catch (error: any) {
+      setExportError(`Export failed: ${error.message}`); // Stay open so the settings can be changed and retried
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const labelClass = 'text-[9px] font-bold uppercase tracking-wider text-slate-500';
+  const inputClass = `px-2 py-1 text-xs rounded border font-mono ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200' : 'bg-white border-slate-300 text-slate-800'}`;
+  const optionClass = (isActive: boolean) => `px-2 py-1 text-[10px] rounded border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+    isActive
+      ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+      : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+  }`;
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/50">
+      <div className={`w-[420px] rounded-lg border shadow-xl ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+        <div className={`flex items-center justify-between px-4 py-3 border-b ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+          <div className="flex items-center space-x-2">
+            <Download size={14} className={isDarkMode ? 'text-cyan-500' : 'text-teal-600'} />
+            <h3 className={`text-xs font-bold uppercase tracking-widest ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>Export Audio</h3>
+          </div>
+          <button onClick={onClose} className="p-1 text-slate-500 hover:text-red-400" title="Close">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div className="space-y-1">
+            <div className={labelClass}>Source</div>
+            <div className="flex flex-wrap gap-1">
+              {sources.map(s => (
+                <button key={s.id} onClick={() => setSourceId(s.id)} className={optionClass(s.id === sourceId)}>{s.label}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1 block">
+              <div className={labelClass}>Format</div>
+              <select value={bitDepth} onChange={(e) => setBitDepth(Number(e.target.value) as WavBitDepth)} className={`${inputClass} w-full`}>
+                {(Object.keys(WAV_BIT_DEPTHS).map(Number) as WavBitDepth[]).map(depth => (
+                  <option key={depth} value={depth}>{WAV_BIT_DEPTHS[depth]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="space-y-1 block">
+              <div className={labelClass}>Sample Rate</div>
+              <select
+                value={sampleRate ?? ''}
+                onChange={(e) => setSampleRate(e.target.value ? Number(e.target.value) : null)}
+                className={`${inputClass} w-full`}
+              >
+                <option value="">Original</option>
+                {EXPORT_SAMPLE_RATES.map(rate => (
+                  <option key={rate} value={rate}>{rate.toLocaleString()} Hz</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="space-y-1">
+            <div className={labelClass}>Channels</div>
+            <div className="flex gap-1">
+              <button onClick={() => setMono(false)} className={optionClass(!mono)}>Original</button>
+              <button onClick={() => setMono(true)} className={optionClass(mono)}>Mono Downmix</button>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <div className={labelClass}>Range</div>
+            <div className="flex gap-1">
+              {(Object.keys(RANGE_LABELS) as WavExportRange[]).map(r => (
+                <button key={r} onClick={() => setRange(r)} disabled={r === 'regions' && regionCount === 0} className={optionClass(r === range)}>
+                  {RANGE_LABELS[r]}
+                </button>
+              ))}
+            </div>
+            {range === 'selection' && (
+              <div className="flex items-center space-x-2 pt-1 text-[10px] text-slate-500 font-mono">
+                <input type="number" min={0} max={duration} step={0.01} value={start} onChange={(e) => setStart(parseFloat(e.target.value) || 0)} className={`${inputClass} w-20`} />
+                <span>to</span>
+                <input type="number" min={0} max={duration} step={0.01} value={end} onChange={(e) => setEnd(parseFloat(e.target.value) || 0)} className={`${inputClass} w-20`} />
+                <span>s</span>
+                {!isRangeValid && <span className="text-red-400">End must be after start</span>}
+              </div>
+            )}
+            {range === 'regions' && (
+              <div className="pt-1 text-[10px] text-slate-500 font-mono">{regionCount} clips, one WAV per labeled region (downloaded as a ZIP)</div>
+            )}
+          </div>
+        </div>
+
+        <div className={`flex items-center justify-end px-4 py-3 border-t ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+          {exportError && <span className="mr-auto pr-3 text-[10px] text-red-400 font-mono">{exportError}</span>}
+          <button
+            onClick={handleExport}
+            disabled={!canExport}
+            className="px-3 py-1.5 text-[10px] flex items-center rounded border transition-colors disabled:opacity-40 disabled:cursor-not-allowed bg-emerald-600 text-white border-emerald-500 hover:bg-emerald-500"
+          >
+            {isExporting ? <Loader2 size={12} className="mr-1.5 animate-spin" /> : <Download size={12} className="mr-1.5" />}
+            Export WAV
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { FolderOpen, Files, Play, Square, Download, X, Loader2, CheckCircle2, AlertTriangle, Layers } from 'lucide-react';
+import { pairRecordingFiles, RecordingPair } from '../utils/icbhi';
+import { detectLabelImporter } from '../utils/labelFormats';
+import { ANALYSIS_PROVIDERS, parseAIRegions } from '../utils/analysis';
+import { evaluateAgreement, combineCycleScores, eventMetrics, formatMetric, CycleScore, EventMetrics } from '../utils/evaluation';
+import { downloadBlob } from '../utils/download';
+
+interface BatchEvaluationProps {
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+type BatchStatus = 'pending' | 'running' | 'done' | 'error';
+
+interface BatchResult {
+  status: BatchStatus;
+  error?: string;
+  cycles: CycleScore | null;
+  events: EventMetrics | null;
+  aiRegionCount: number;
+}
+
+const readFileText = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsText(file);
+});
+
+const csvNumber = (value: number | null | undefined) => value === null || value === undefined ? '' : value.toFixed(4);
+
+const formatIgnored = (names: string[]) => `${names.slice(0, 5).join(', ')}${names.length > 5 ? ', ...' : ''}`;
+
+export const BatchEvaluation: React.FC<BatchEvaluationProps> = ({ onClose, isDarkMode }) => {
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const cancelRequested = useRef(false);
+
+  const [pairs, setPairs] = useState<RecordingPair[]>([]);
+  const [unsupported, setUnsupported] = useState<string[]>([]);
+  const [orphanLabels, setOrphanLabels] = useState<string[]>([]);
+  const [results, setResults] = useState<Record<string, BatchResult>>({});
+  const [providerId, setProviderId] = useState(ANALYSIS_PROVIDERS[0].id);
+  const [overlapThreshold, setOverlapThreshold] = useState(0.5);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // `webkitdirectory` is not part of React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+    // Stop a running batch when the view is closed
+    return () => { cancelRequested.current = true; };
+  }, []);
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (!e.target.files) return;
+    const selection = pairRecordingFiles(Array.from(e.target.files));
+    setPairs(selection.pairs);
+    setUnsupported(selection.unsupported);
+    setOrphanLabels(selection.orphanLabels);
+    setResults({});
+    e.target.value = '';
+  };
+
+  const updateResult = (baseName: string, result: Partial<BatchResult>) => {
+    setResults(prev => ({
+      ...prev,
+      [baseName]: { status: 'pending', cycles: null, events: null, aiRegionCount: 0, ...prev[baseName], ...result }
+    }));
+  };
+
+  const handleRun = async () => {
+    const provider = ANALYSIS_PROVIDERS.find(p => p.id === providerId);
+    if (!provider) return;
+
+    cancelRequested.current = false;
+    setIsRunning(true);
+    setResults({});
+
+    // Sequential on purpose: keeps remote providers within rate limits
+    for (const pair of pairs) {
+      if (cancelRequested.current) break;
+      if (!pair.labels) {
+        updateResult(pair.baseName, { status: 'error', error: 'No matching .txt labels' });
+        continue;
+      }
+
+      updateResult(pair.baseName, { status: 'running' });
+      try {
+        const labelText = await readFileText(pair.labels);
+        const importer = detectLabelImporter(pair.labels.name, labelText);
+        if (!importer || importer.requiresMapping) throw new Error('Unrecognised label format');
+        const clinical = importer.parse(labelText).regions;
+
+        const aiText = await provider.analyze(pair.audio);
+        const aiRegions = parseAIRegions(aiText);
+        const report = evaluateAgreement(clinical, aiRegions, overlapThreshold);
+
+        updateResult(pair.baseName, {
+          status: 'done',
+          cycles: report.cycles,
+          events: report.scopes.All.events,
+          aiRegionCount: aiRegions.length
+        });
+      } catch (error: any) {
+        updateResult(pair.baseName, { status: 'error', error: error.message || 'Analysis failed' });
+      }
+    }
+
+    setIsRunning(false);
+  };
+
+  // Overall scores pool the counts of every completed recording
+  const completed = pairs.map(p => results[p.baseName]).filter((r): r is BatchResult => r?.status === 'done');
+  const overallCycles = combineCycleScores(completed.map(r => r.cycles).filter((c): c is CycleScore => c !== null));
+  const overallEvents = completed.length > 0
+    ? eventMetrics(
+        completed.reduce((sum, r) => sum + (r.events?.tp || 0), 0),
+        completed.reduce((sum, r) => sum + (r.events?.fp || 0), 0),
+        completed.reduce((sum, r) => sum + (r.events?.fn || 0), 0))
+    : null;
+
+  const handleExportCsv = () => {
+    const header = 'file,patient_id,location,status,cycles,abnormal_cycles,sensitivity,specificity,icbhi_score,tp,fp,fn,precision,recall,f1';
+    const row = (name: string, patient: string, location: string, status: string, cycles: CycleScore | null, events: EventMetrics | null) => [
+      name, patient, location, status,
+      cycles?.cycles ?? '', cycles?.abnormalCycles ?? '',
+      csvNumber(cycles?.sensitivity), csvNumber(cycles?.specificity), csvNumber(cycles?.score),
+      events?.tp ?? '', events?.fp ?? '', events?.fn ?? '',
+      csvNumber(events?.precision), csvNumber(events?.recall), csvNumber(events?.f1)
+    ].join(',');
+
+    const rows = pairs.map(p => {
+      const r = results[p.baseName];
+      return row(p.baseName, p.metadata?.id || '', p.metadata?.location || '', r?.status || 'pending', r?.cycles || null, r?.events || null);
+    });
+    rows.push(row('OVERALL', '', '', `${completed.length}/${pairs.length}`, overallCycles, overallEvents));
+
+    const provider = ANALYSIS_PROVIDERS.find(p => p.id === providerId);
+    downloadBlob(new Blob([[header, ...rows].join('\n') + '\n'], { type: 'text/csv' }), `batch_${provider?.id || 'analysis'}_scores.csv`);
+  };
+
+  const buttonClass = `px-3 py-1.5 text-xs flex items-center rounded border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+    isDarkMode ? 'bg-slate-800 text-slate-300 border-slate-700 hover:text-white' : 'bg-white text-slate-600 border-slate-300 hover:text-slate-900'
+  }`;
+  const headerClass = `px-3 py-2 text-left text-[9px] font-bold uppercase tracking-wider ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`;
+  const cellClass = `px-3 py-1.5 font-mono text-[11px] ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`;
+
+  return (
+    <div className={`absolute inset-0 z-30 flex flex-col ${isDarkMode ? 'bg-slate-950' : 'bg-slate-50'}`}>
+      {/* Toolbar */}
+      <div className={`flex items-center justify-between px-6 py-3 border-b ${isDarkMode ? 'border-slate-800 bg-slate-900/50' : 'border-slate-200 bg-white'}`}>
+        <div className="flex items-center space-x-2">
+          <input type="file" ref={filesInputRef} className="hidden" multiple accept=".wav,.txt" onChange={handleFilesSelected} />
+          <input type="file" ref={folderInputRef} className="hidden" multiple onChange={handleFilesSelected} />
+          <button onClick={() => filesInputRef.current?.click()} disabled={isRunning} className={buttonClass}>
+            <Files size={14} className="mr-1.5" /> Select Files
+          </button>
+          <button onClick={() => folderInputRef.current?.click()} disabled={isRunning} className={buttonClass}>
+            <FolderOpen size={14} className="mr-1.5" /> Select Folder
+          </button>
+
+          <div className={`h-6 w-px mx-2 ${isDarkMode ? 'bg-slate-800' : 'bg-slate-200'}`} />
+
+          <select
+            value={providerId}
+            onChange={(e) => setProviderId(e.target.value)}
+            disabled={isRunning}
+            className={`px-2 py-1.5 text-xs rounded border font-mono ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200' : 'bg-white border-slate-300 text-slate-800'}`}
+          >
+            {ANALYSIS_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+
+          <label className="flex items-center space-x-2 text-[10px] text-slate-500 uppercase font-bold tracking-wider">
+            <span>Min Overlap</span>
+            <input
+              type="range" min="0" max="1" step="0.05"
+              value={overlapThreshold}
+              disabled={isRunning}
+              onChange={(e) => setOverlapThreshold(parseFloat(e.target.value))}
+              className={`w-20 ${isDarkMode ? 'accent-cyan-500' : 'accent-teal-600'}`}
+            />
+            <span className="font-mono w-8">{Math.round(overlapThreshold * 100)}%</span>
+          </label>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {isRunning ? (
+            <button onClick={() => { cancelRequested.current = true; }} className={buttonClass}>
+              <Square size={14} className="mr-1.5" /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={pairs.length === 0}
+              className={`px-3 py-1.5 text-xs flex items-center rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed text-white ${isDarkMode ? 'bg-cyan-600 hover:bg-cyan-500' : 'bg-teal-600 hover:bg-teal-500'}`}
+            >
+              <Play size={14} className="mr-1.5" /> Run Batch
+            </button>
+          )}
+          <button onClick={handleExportCsv} disabled={completed.length === 0 || isRunning} className={buttonClass}>
+            <Download size={14} className="mr-1.5" /> CSV
+          </button>
+          <button onClick={onClose} disabled={isRunning} className="p-1.5 text-slate-500 hover:text-red-400 disabled:opacity-40" title="Close Batch Mode">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-auto p-6">
+        {pairs.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center opacity-50">
+            <Layers size={40} className="mb-3 text-slate-500" />
+            <p className={`text-sm font-medium ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>Batch Evaluation</p>
+            <p className="text-xs text-slate-500 mt-1 max-w-xs">Select ICBHI recordings (*.wav) together with their label files (*.txt). Files are paired by name.</p>
+          </div>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className={`border-b ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+                <th className={headerClass}>Recording</th>
+                <th className={headerClass}>Patient</th>
+                <th className={headerClass}>Location</th>
+                <th className={headerClass}>Status</th>
+                <th className={headerClass}>Cycles</th>
+                <th className={headerClass}>Se</th>
+                <th className={headerClass}>Sp</th>
+                <th className={headerClass}>Score</th>
+                <th className={headerClass}>Event F1</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pairs.map(pair => {
+                const r = results[pair.baseName];
+                return (
+                  <tr key={pair.baseName} className={`border-b ${isDarkMode ? 'border-slate-900' : 'border-slate-100'}`}>
+                    <td className={cellClass}>{pair.baseName}</td>
+                    <td className={cellClass}>{pair.metadata?.id || '—'}</td>
+                    <td className={cellClass}>{pair.metadata?.location || '—'}</td>
+                    <td className={cellClass}>
+                      {!r || r.status === 'pending' ? (
+                        <span className="text-slate-500">{pair.labels ? 'Pending' : 'No labels'}</span>
+                      ) : r.status === 'running' ? (
+                        <span className="flex items-center text-cyan-400"><Loader2 size={12} className="animate-spin mr-1" /> Running</span>
+                      ) : r.status === 'done' ? (
+                        <span className="flex items-center text-emerald-400"><CheckCircle2 size={12} className="mr-1" /> {r.aiRegionCount} regions</span>
+                      ) : (
+                        <span className="flex items-center text-red-400" title={r.error}><AlertTriangle size={12} className="mr-1" /> {r.error}</span>
+                      )}
+                    </td>
+                    <td className={cellClass}>{r?.cycles ? `${r.cycles.abnormalCycles}/${r.cycles.cycles}` : '—'}</td>
+                    <td className={cellClass}>{formatMetric(r?.cycles?.sensitivity ?? null)}</td>
+                    <td className={cellClass}>{formatMetric(r?.cycles?.specificity ?? null)}</td>
+                    <td className={cellClass}>{formatMetric(r?.cycles?.score ?? null)}</td>
+                    <td className={cellClass}>{formatMetric(r?.events?.f1 ?? null)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr className={`font-bold ${isDarkMode ? 'bg-slate-900' : 'bg-slate-100'}`}>
+                <td className={cellClass} colSpan={3}>Overall (pooled cycles)</td>
+                <td className={cellClass}>{completed.length} / {pairs.length} done</td>
+                <td className={cellClass}>{overallCycles ? `${overallCycles.abnormalCycles}/${overallCycles.cycles}` : '—'}</td>
+                <td className={cellClass}>{formatMetric(overallCycles?.sensitivity ?? null)}</td>
+                <td className={cellClass}>{formatMetric(overallCycles?.specificity ?? null)}</td>
+                <td className={cellClass}>{formatMetric(overallCycles?.score ?? null)}</td>
+                <td className={cellClass}>{formatMetric(overallEvents?.f1 ?? null)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+
+        {unsupported.length > 0 && (
+          <div className="mt-4 text-[10px] text-slate-500 font-mono">
+            Ignored {unsupported.length} unsupported file(s) (not .wav or .txt): {formatIgnored(unsupported)}
+          </div>
+        )}
+        {orphanLabels.length > 0 && (
+          <div className={`${unsupported.length > 0 ? 'mt-1' : 'mt-4'} text-[10px] text-slate-500 font-mono`}>
+            Ignored {orphanLabels.length} label file(s) without a matching recording: {formatIgnored(orphanLabels)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { BreathSegmentation, PhaseFinding, BREATH_PHASE_STYLES, formatIERatio } from '../utils/breathPhase';
+
+interface BreathPhasePanelProps {
+  segmentation: BreathSegmentation;
+  findings: PhaseFinding[];
+  findingsSource: string;   // Which regions the findings were taken from, e.g. "Clinical labels"
+  onSeek: (time: number) => void;
+  isDarkMode: boolean;
+}
+
+export const BreathPhasePanel: React.FC<BreathPhasePanelProps> = ({ segmentation, findings, findingsSource, onSeek, isDarkMode }) => {
+  const sectionTitleClass = 'text-[9px] font-bold uppercase tracking-wider text-slate-500';
+  const valueClass = `font-mono text-sm ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`;
+  const inspirations = segmentation.regions.filter(r => r.content === BREATH_PHASE_STYLES.inspiration.label).length;
+  const expirations = segmentation.regions.length - inspirations;
+
+  return (
+    <div className="w-full h-full flex space-x-4 p-3 overflow-auto">
+      {/* Timing summary */}
+      <div className="w-56 flex-shrink-0 space-y-3">
+        <div className={sectionTitleClass}>Breathing Pattern</div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <div className="text-[9px] text-slate-500 uppercase">Resp. Rate</div>
+            <div className={valueClass}>{segmentation.respiratoryRate ? `${segmentation.respiratoryRate.toFixed(1)}/min` : '—'}</div>
+          </div>
+          <div>
+            <div className="text-[9px] text-slate-500 uppercase">I:E</div>
+            <div className={valueClass}>{formatIERatio(segmentation.ieRatio)}</div>
+          </div>
+        </div>
+        <div className="text-[10px] text-slate-500 font-mono">{inspirations} inspirations · {expirations} expirations</div>
+      </div>
+
+      {/* Findings timed against the phases (click to jump to the first occurrence) */}
+      <div className={`flex-1 space-y-2 border-l pl-4 ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+        <div className={sectionTitleClass}>Findings by Phase · {findingsSource}</div>
+        {findings.length > 0 ? (
+          <ul className="space-y-1">
+            {findings.map(finding => (
+              <li key={finding.description}>
+                <button
+                  onClick={() => onSeek(finding.firstStart)}
+                  className={`text-[11px] text-left transition-colors ${isDarkMode ? 'text-slate-300 hover:text-cyan-400' : 'text-slate-700 hover:text-teal-600'}`}
+                >
+                  {finding.description} <span className="font-mono text-slate-500">×{finding.count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div className="text-[10px] text-slate-500">No wheezes or crackles to place. Label events or run a detector.</div>
+        )}
+      </div>
+    </div>
+  );
+};
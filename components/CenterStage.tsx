@@ -1,11 +1,40 @@
-import React, { useRef, useState, useEffect, DragEvent } from 'react';
-import { UploadCloud, FileAudio, X, Loader2, Activity, ListMusic, Wand2, Headphones } from 'lucide-react';
-import { AudioFile, AIFilterConfig, RegionData } from '../types';
+import React, { useRef, useState, useEffect, useMemo, DragEvent } from 'react';
+import { UploadCloud, FileAudio, X, Loader2, Activity, ListMusic, Wand2, Headphones, Download, ChevronLeft, ChevronRight, Target, Layers, Radio, History, Save, SlidersHorizontal, HeartPulse, Eraser, Sparkles, ScanSearch, Check, AudioWaveform, Wind, Keyboard, List, MapIcon, Crosshair } from 'lucide-react';
+import { AudioFile, AIFilterConfig, RegionData, RecordingChannel, AnalysisSession, FilterStage, TimeSelection, PlaybackLoop, SeekRequest } from '../types';
 import { DebugLog } from './DebugLog';
 import { WaveformTrack } from './WaveformTrack'; 
-import { TimelineTrack } from './TimelineTrack';
+import { TimelineTrack, DetectorLane } from './TimelineTrack';
+import { serializeLabels, formatParseIssue, isCycleRegion, annotationColor, AnnotationClass, LabelExportFormat, LabelParseIssue, LABEL_EXPORT_FORMATS } from '../utils/labelFormats';
 import { TrackRow } from './TrackRow';
 import { MasterControls } from './MasterControls';
+import { EvaluationPanel } from './EvaluationPanel';
+import { BreathPhasePanel } from './BreathPhasePanel';
+import { BatchEvaluation } from './BatchEvaluation';
+import { SessionHistory } from './SessionHistory';
+import { FilterChainEditor } from './FilterChainEditor';
+import { AudioExportDialog, AudioExportSource } from './AudioExportDialog';
+import { ShortcutHelpOverlay } from './ShortcutHelpOverlay';
+import { RegionNavigator } from './RegionNavigator';
+import { OverviewMinimap } from './OverviewMinimap';
+import { evaluateAgreement, EvaluationScope } from '../utils/evaluation';
+import { parseAIRegions } from '../utils/analysis';
+import { downloadBlob } from '../utils/download';
+import { createZip } from '../utils/zip';
+import { findMultichannelSet } from '../utils/icbhi';
+import { decodeAudioUrl, getChannels, createAudioBuffer, revokeAudioUrl, isSupportedAudioFile, checkAudioFileSize, AUDIO_FILE_ACCEPT, SUPPORTED_AUDIO_EXTENSIONS, MAX_FILE_SIZE_MB, MAX_DURATION_MINUTES } from '../utils/audioDecode';
+import { suppressHeartSounds, HeartSoundEvent, HEART_SUPPRESSION_DEFAULTS } from '../utils/heartSounds';
+import { captureNoiseProfile, spectralSubtract, NoiseProfile } from '../utils/spectralSubtraction';
+import { bufferToWave, exportWavClips, WavExportOptions, WAV_BIT_DEPTHS } from '../utils/wavExport';
+import { detectCrackles } from '../utils/crackleDetector';
+import { detectWheezes, WheezeEvent } from '../utils/wheezeDetector';
+import { segmentBreathPhases, summarizePhaseFindings, formatIERatio, BreathSegmentation, BREATH_PHASE_STYLES } from '../utils/breathPhase';
+import { connectFilterChain, describeFilterChain, activeStages } from '../utils/filterChain';
+import {
+  ShortcutAction, ShortcutBindings, LABEL_SHORTCUT_CLASSES, NUDGE_SECONDS, NUDGE_LARGE_SECONDS, SHUTTLE_SPEEDS, SHUTTLE_REVERSE_STEP_MS,
+  loadShortcutBindings, saveShortcutBindings, keyFromEvent, findShortcutAction, isEditableTarget
+} from '../utils/shortcuts';
+import { buildNavigatorRows, RegionSourceGroup } from '../utils/regionNavigator';
+import { ZOOM_STEP, WHEEL_ZOOM_RATE, clampZoom, visibleWindow, zoomAround, fitSpan, wheelDeltaPixels } from '../utils/viewport';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface CenterStageProps {
@@ -13,78 +42,87 @@ interface CenterStageProps {
   setCurrentFile: React.Dispatch<React.SetStateAction<AudioFile | null>>;
   aiAnalysisOutput: string;
   aiFilterConfig: AIFilterConfig | null;
+  setAiFilterConfig: React.Dispatch<React.SetStateAction<AIFilterConfig | null>>;
   clinicalRegions: RegionData[];
   setClinicalRegions: React.Dispatch<React.SetStateAction<RegionData[]>>;
   currentLabelFile: string | null;
   setCurrentLabelFile: React.Dispatch<React.SetStateAction<string | null>>;
+  activeSessionId: string | null;
+  onSaveSession: () => Promise<void>;
+  onReopenSession: (session: AnalysisSession) => Promise<void>;
   isDarkMode: boolean;
 }
 
-const bufferToWave = (abuffer: AudioBuffer, len: number) => {
-  let numOfChan = abuffer.numberOfChannels,
-      length = len * numOfChan * 2 + 44,
-      buffer = new ArrayBuffer(length),
-      view = new DataView(buffer),
-      channels = [], i, sample,
-      offset = 0,
-      pos = 0;
-
-  setUint32(0x46464952);                         // "RIFF"
-  setUint32(length - 8);                         // file length - 8
-  setUint32(0x45564157);                         // "WAVE"
-  setUint32(0x20746d66);                         // "fmt " chunk
-  setUint32(16);                                 // length = 16
-  setUint16(1);                                  // PCM (uncompressed)
-  setUint16(numOfChan);
-  setUint32(abuffer.sampleRate);
-  setUint32(abuffer.sampleRate * 2 * numOfChan); // avg. bytes/sec
-  setUint16(numOfChan * 2);                      // block-align
-  setUint16(16);                                 // 16-bit
-  setUint32(0x61746164);                         // "data" - chunk
-  setUint32(length - pos - 4);                   // chunk length
-
-  for(i = 0; i < abuffer.numberOfChannels; i++)
-    channels.push(abuffer.getChannelData(i));
-
-  while(pos < len) {
-    for(i = 0; i < numOfChan; i++) {
-      sample = Math.max(-1, Math.min(1, channels[i][pos]));
-      sample = (0.5 + sample < 0 ? sample * 32768 : sample * 32767)|0;
-      view.setInt16(44 + offset, sample, true);
-      offset += 2;
-    }
-    pos++;
-  }
-
-  return new Blob([buffer], {type: "audio/wav"});
-
-  function setUint16(data: number) { view.setUint16(pos, data, true); pos += 2; }
-  function setUint32(data: number) { view.setUint32(pos, data, true); pos += 4; }
-};
+// Shortest span that can be looped (seconds)
+const MIN_LOOP_SECONDS = 0.1;
 
 export const CenterStage: React.FC<CenterStageProps> = ({ 
   currentFile, 
   setCurrentFile, 
   aiAnalysisOutput, 
   aiFilterConfig,
+  setAiFilterConfig,
   clinicalRegions,
   setClinicalRegions,
   currentLabelFile,
   setCurrentLabelFile,
+  activeSessionId,
+  onSaveSession,
+  onReopenSession,
   isDarkMode
 }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [isLoadingFiles, setIsLoadingFiles] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSavingSession, setIsSavingSession] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+
+  // Keyboard Shortcuts
+  const [shortcutBindings, setShortcutBindings] = useState<ShortcutBindings>(loadShortcutBindings);
+  const [isShortcutHelpOpen, setIsShortcutHelpOpen] = useState(false);
 
   // Region State (AI Regions are still local as they are derived from AI output)
   const [aiRegions, setAiRegions] = useState<RegionData[]>([]);
+
+  // Detector State (deterministic candidates, shown in their own lane until accepted as labels)
+  const [crackleCandidates, setCrackleCandidates] = useState<RegionData[]>([]);
+  const [isDetectingCrackles, setIsDetectingCrackles] = useState(false);
+  const [wheezeEvents, setWheezeEvents] = useState<WheezeEvent[]>([]);
+  const [isDetectingWheezes, setIsDetectingWheezes] = useState(false);
+  const [breathPhases, setBreathPhases] = useState<BreathSegmentation | null>(null);
+  const [isSegmentingPhases, setIsSegmentingPhases] = useState(false);
   
   // Filter State
   const [filteredAudioUrl, setFilteredAudioUrl] = useState<string | null>(null);
   const [isProcessingFilter, setIsProcessingFilter] = useState(false);
+
+  // Filter Chain Editor (draft is rendered by committing it as the filter config)
+  const [isFilterEditorOpen, setIsFilterEditorOpen] = useState(false);
+  const [filterDraft, setFilterDraft] = useState<FilterStage[]>([]);
+  const [isLivePreview, setIsLivePreview] = useState(false);
   
+  // Heart Sound Suppression State (derived track with S1/S2 segments attenuated below the cutoff)
+  const [heartSuppressedUrl, setHeartSuppressedUrl] = useState<string | null>(null);
+  const [heartEvents, setHeartEvents] = useState<HeartSoundEvent[]>([]);
+  const [isProcessingHeart, setIsProcessingHeart] = useState(false);
+
+  // Noise Reduction State (profile from a quiet span of the raw track, subtracted from the whole recording)
+  const [isSelectingNoise, setIsSelectingNoise] = useState(false);
+  const [noiseSelection, setNoiseSelection] = useState<TimeSelection | null>(null);
+  const [noiseProfile, setNoiseProfile] = useState<NoiseProfile | null>(null);
+  const [denoisedUrl, setDenoisedUrl] = useState<string | null>(null);
+  const [isProcessingDenoise, setIsProcessingDenoise] = useState(false);
+
   // Audio Source State (Solo/Monitor Logic)
-  const [activeAudioSource, setActiveAudioSource] = useState<'raw' | 'filtered'>('raw');
+  const [activeAudioSource, setActiveAudioSource] = useState<'raw' | 'filtered' | 'heart' | 'denoised'>('raw');
+
+  // Multichannel Set State (simultaneous recordings of one patient/index, one raw track per location)
+  const [channels, setChannels] = useState<RecordingChannel[]>([]);
+  const [mutedChannels, setMutedChannels] = useState<string[]>([]);
+  const [soloChannel, setSoloChannel] = useState<string | null>(null);
 
   // --- MASTER CLOCK STATE ---
   const [isPlaying, setIsPlaying] = useState(false);
@@ -92,12 +130,29 @@ export const CenterStage: React.FC<CenterStageProps> = ({
   const [duration, setDuration] = useState(0);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [reverseShuttleSpeed, setReverseShuttleSpeed] = useState(0); // J shuttle; 0 = not reversing
+  const [loop, setLoop] = useState<PlaybackLoop | null>(null);
+  const [loopPointA, setLoopPointA] = useState<number | null>(null);
   
+  // Evaluation State (clinical labels vs Gemini regions)
+  const [evaluationScope, setEvaluationScope] = useState<EvaluationScope>('All');
+  const [overlapThreshold, setOverlapThreshold] = useState(0.5);
+  const [showEvaluationHighlights, setShowEvaluationHighlights] = useState(true);
+  const [agreementSource, setAgreementSource] = useState<'ai' | 'detector'>('ai');
+
+  // Region Navigator State (selection is shared with the timeline)
+  const [isNavigatorOpen, setIsNavigatorOpen] = useState(false);
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+
   // Zoom State (Pixels Per Second)
   const [zoomLevel, setZoomLevel] = useState(50);
+  // Left edge of every track's view (overview drag, wheel pan / zoom); null = follow the playhead
+  const [viewStart, setViewStart] = useState<number | null>(null);
+  const [viewportWidth, setViewportWidth] = useState(0); // Shared width of the tracks' viewports
   
   // Controls seek updates propagated to children
-  const [seekTarget, setSeekTarget] = useState<number | null>(null);
+  const [seekTarget, setSeekTarget] = useState<SeekRequest | null>(null);
 
   // Logs
   const [logs, setLogs] = useState<string[]>([]);
@@ -108,44 +163,185 @@ export const CenterStage: React.FC<CenterStageProps> = ({
 
   useEffect(() => {
       setAiRegions([]);
+      setCrackleCandidates([]);
+      setWheezeEvents([]);
+      setBreathPhases(null);
       setFilteredAudioUrl(null);
+      setHeartSuppressedUrl(null);
+      setHeartEvents([]);
+      setIsSelectingNoise(false);
+      setNoiseSelection(null);
+      setNoiseProfile(null);
+      setDenoisedUrl(null);
+      setIsExportOpen(false);
       setDuration(0);
       setSeekTarget(null);
       setIsPlaying(false);
+      setLoop(null);
+      setLoopPointA(null);
+      setReverseShuttleSpeed(0);
+      setSelectedRegionId(null);
       setCurrentTime(0);
       setActiveAudioSource('raw');
+      setMutedChannels([]);
+      setSoloChannel(null);
       setZoomLevel(50); // Reset zoom on file load
+      setViewStart(null);
       setLogs([]);
       if(currentFile) addLog(`File loaded: ${currentFile.name}`);
+      // A file loaded from elsewhere (e.g. a reference case) replaces the multichannel set
+      setChannels(prev => prev.some(c => c.file.url === currentFile?.url) ? prev : []);
   }, [currentFile]);
 
+  // Derived renders own their blob URLs: each is freed once it is replaced, cleared (including the
+  // reset on file change) or the editor unmounts
+  useEffect(() => () => { if (filteredAudioUrl) revokeAudioUrl(filteredAudioUrl); }, [filteredAudioUrl]);
+  useEffect(() => () => { if (heartSuppressedUrl) revokeAudioUrl(heartSuppressedUrl); }, [heartSuppressedUrl]);
+  useEffect(() => () => { if (denoisedUrl) revokeAudioUrl(denoisedUrl); }, [denoisedUrl]);
+
   // --- PLAYBACK CONTROLLERS ---
-  const handleTogglePlay = () => setIsPlaying(!isPlaying);
+  const handleTogglePlay = () => {
+      if (reverseShuttleSpeed > 0) setReverseShuttleSpeed(0);
+      else setIsPlaying(!isPlaying);
+  };
   
   const handleSeek = (time: number) => {
-      setSeekTarget(time);
+      setSeekTarget({ time });
       setCurrentTime(time);
   };
 
+  // Loops are enforced here, on the driver track's clock, so every track jumps back together
   const handleTimeUpdate = (time: number) => {
+      if (loop && isPlaying && time >= loop.end) {
+          handleSeek(loop.start);
+          return;
+      }
       setCurrentTime(time);
   };
+
+  // --- LOOPING ---
+  const startLoop = (next: PlaybackLoop) => {
+      if (next.end - next.start < MIN_LOOP_SECONDS) {
+          addLog(`Loop ignored: shorter than ${MIN_LOOP_SECONDS}s.`);
+          return;
+      }
+      setLoop(next);
+      setLoopPointA(null);
+      handleSeek(next.start);
+      addLog(`Loop: ${next.label} (${next.start.toFixed(2)}s - ${next.end.toFixed(2)}s)`);
+  };
+
+  // First press sets A, the second sets B (either order on the time axis)
+  const handleSetLoopPoint = () => {
+      if (loopPointA === null) {
+          setLoop(null);
+          setLoopPointA(currentTime);
+          return;
+      }
+      startLoop({ start: Math.min(loopPointA, currentTime), end: Math.max(loopPointA, currentTime), label: 'A-B' });
+  };
+
+  const handleLoopRegion = (region: RegionData) => startLoop({ start: region.start, end: region.end, label: region.content });
+
+  const handleClearLoop = () => {
+      setLoop(null);
+      setLoopPointA(null);
+  };
   
+  // --- CHANNEL MONITORING ---
+  // Solo wins over per-channel mute; nothing raw is heard while the filtered track is monitored
+  const isChannelAudible = (id: string) => soloChannel ? soloChannel === id : !mutedChannels.includes(id);
+
+  const handleToggleChannelMonitor = (id: string) => {
+      if (activeAudioSource !== 'raw') {
+          setActiveAudioSource('raw');
+          setMutedChannels(prev => prev.filter(c => c !== id));
+          return;
+      }
+      setMutedChannels(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const handleToggleChannelSolo = (id: string) => {
+      setActiveAudioSource('raw');
+      setSoloChannel(prev => prev === id ? null : id);
+  };
+
+  // --- BREATH CYCLE NAVIGATION ---
+  const breathCycles = clinicalRegions.filter(isCycleRegion).sort((a, b) => a.start - b.start);
+  const activeCycleIndex = breathCycles.findIndex(c => currentTime >= c.start && currentTime < c.end);
+
+  const handleJumpCycle = (direction: 1 | -1) => {
+      // Between cycles, "next" is the first cycle after the playhead and "previous" the last one before it
+      const cyclesStarted = breathCycles.filter(c => c.start <= currentTime).length;
+      const reference = activeCycleIndex >= 0 ? activeCycleIndex : cyclesStarted - 0.5;
+      const target = breathCycles[direction === 1 ? Math.floor(reference) + 1 : Math.ceil(reference) - 1];
+      if (target) handleSeek(target.start);
+  };
+
+  // The cycle under the playhead: a labelled cycle, else an inspiration and the expiration after
+  // it (from the breath phase segmentation)
+  const breathCycleAt = (time: number): PlaybackLoop | null => {
+      const index = breathCycles.findIndex(c => time >= c.start && time < c.end);
+      if (index >= 0) return { start: breathCycles[index].start, end: breathCycles[index].end, label: `Cycle ${index + 1}` };
+      const inspirations = (breathPhases?.regions || []).filter(r => r.content === BREATH_PHASE_STYLES.inspiration.label);
+      if (inspirations.length === 0) return null;
+      const started = inspirations.filter(r => r.start <= time).length;
+      const i = Math.max(0, started - 1);
+      const expiration = breathPhases!.regions.find(r => r.content === BREATH_PHASE_STYLES.expiration.label && r.start >= inspirations[i].end);
+      const end = inspirations[i + 1]?.start ?? expiration?.end ?? inspirations[i].end;
+      return { start: inspirations[i].start, end, label: `Cycle ${i + 1}` };
+  };
+
+  const handleLoopCycle = () => {
+      const cycle = breathCycleAt(currentTime);
+      if (cycle) startLoop(cycle);
+  };
+
   // --- ZOOM CONTROLLERS ---
-  const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 50, 500));
-  const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 50, 10));
+  // Zoom steps scale the visible span (a short file is stretched to fit, so that is the base
+  // rather than the nominal level). Following keeps the playhead centred; a scrolled view keeps its centre.
+  const zoomBy = (factor: number) => {
+      const view = visibleWindow(duration, currentTime, zoomLevel, viewportWidth, viewStart);
+      const zoom = clampZoom(view.end > view.start ? (viewportWidth / (view.end - view.start)) * factor : zoomLevel * factor);
+      setZoomLevel(zoom);
+      if (viewStart !== null) setViewStart(zoomAround((view.start + view.end) / 2, viewportWidth / 2, zoom));
+  };
+  const handleZoomIn = () => zoomBy(ZOOM_STEP);
+  const handleZoomOut = () => zoomBy(1 / ZOOM_STEP);
+
+  const handleZoomToFit = () => {
+      if (duration > 0 && viewportWidth > 0) setZoomLevel(clampZoom(viewportWidth / duration));
+      setViewStart(null);
+  };
+
+  const zoomToSpan = (span: TimeSelection) => {
+      if (viewportWidth <= 0) return;
+      const { zoom, start } = fitSpan(span, viewportWidth);
+      setZoomLevel(zoom);
+      setViewStart(start);
+  };
+
+  // Overview viewport: dragging scrolls every track, resizing it zooms them
+  const handleViewChange = (start: number, zoom: number) => {
+      setZoomLevel(clampZoom(zoom));
+      setViewStart(start);
+  };
+
+  // Starting playback hands the view back to the playhead (and ends a reverse shuttle)
+  useEffect(() => {
+      if (!isPlaying) return;
+      setViewStart(null);
+      setReverseShuttleSpeed(0);
+  }, [isPlaying]);
 
   // --- OFFLINE AUDIO PROCESSING ---
   const processOfflineAudio = async () => {
       if (!currentFile || !aiFilterConfig) return;
       setIsProcessingFilter(true);
-      addLog(`Render: ${aiFilterConfig.type} @ ${aiFilterConfig.frequency}Hz`);
+      addLog(`Render: ${describeFilterChain(aiFilterConfig)}`);
 
       try {
-          const response = await fetch(currentFile.url);
-          const arrayBuffer = await response.arrayBuffer();
-          const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-          const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+          const audioBuffer = await decodeAudioUrl(currentFile.url);
 
           const offlineCtx = new OfflineAudioContext(
               audioBuffer.numberOfChannels,
@@ -156,13 +352,7 @@ export const CenterStage: React.FC<CenterStageProps> = ({
           const source = offlineCtx.createBufferSource();
           source.buffer = audioBuffer;
 
-          const filter = offlineCtx.createBiquadFilter();
-          filter.type = aiFilterConfig.type;
-          filter.frequency.value = aiFilterConfig.frequency;
-          filter.Q.value = aiFilterConfig.Q;
-
-          source.connect(filter);
-          filter.connect(offlineCtx.destination);
+          connectFilterChain(offlineCtx, source, aiFilterConfig).connect(offlineCtx.destination);
 
           source.start();
           const renderedBuffer = await offlineCtx.startRendering();
@@ -182,13 +372,109 @@ export const CenterStage: React.FC<CenterStageProps> = ({
   };
 
   useEffect(() => {
-    if (aiFilterConfig && currentFile) {
+    setFilterDraft(aiFilterConfig ? aiFilterConfig.stages : []);
+    if (activeStages(aiFilterConfig).length > 0 && currentFile) {
         processOfflineAudio();
     } else {
         setFilteredAudioUrl(null);
     }
   }, [aiFilterConfig]);
 
+  const isFilterDraftDirty = JSON.stringify(filterDraft) !== JSON.stringify(aiFilterConfig ? aiFilterConfig.stages : []);
+
+  // Live preview plays the raw track through the draft in real time; rendering is only needed
+  // for the filtered waveform/spectrogram
+  const liveFilter = useMemo(
+      () => isLivePreview && isFilterEditorOpen ? { stages: filterDraft } : null,
+      [isLivePreview, isFilterEditorOpen, filterDraft]
+  );
+
+  const handleToggleLivePreview = () => {
+      if (!isLivePreview) setActiveAudioSource('raw');
+      setIsLivePreview(!isLivePreview);
+      addLog(isLivePreview ? 'Live preview off.' : 'Live preview: raw track through the draft chain.');
+  };
+
+  const handleRenderFilterDraft = () => {
+      setAiFilterConfig(filterDraft.length > 0 ? { stages: filterDraft } : null);
+  };
+
+  // --- HEART SOUND SUPPRESSION ---
+  const processHeartSuppression = async () => {
+      if (!currentFile) return;
+      setIsProcessingHeart(true);
+      addLog(`Heart suppression: S1/S2 below ${HEART_SUPPRESSION_DEFAULTS.cutoffHz}Hz, -${HEART_SUPPRESSION_DEFAULTS.attenuationDb}dB`);
+
+      try {
+          const audioBuffer = await decodeAudioUrl(currentFile.url);
+          const { channels, events } = suppressHeartSounds(getChannels(audioBuffer), audioBuffer.sampleRate);
+          const rendered = createAudioBuffer(channels, audioBuffer.sampleRate);
+
+          const wavUrl = URL.createObjectURL(bufferToWave(rendered, rendered.length));
+          setHeartSuppressedUrl(wavUrl);
+          setHeartEvents(events);
+          setActiveAudioSource('heart');
+          addLog(`Suppressed ${events.length} heart sound events. Switched active source.`);
+      } catch (error: any) {
+          addLog(`Error: ${error.message}`);
+          console.error(error);
+      } finally {
+          setIsProcessingHeart(false);
+      }
+  };
+
+  const handleToggleHeartSuppression = () => {
+      if (heartSuppressedUrl) {
+          setHeartSuppressedUrl(null);
+          setHeartEvents([]);
+          if (activeAudioSource === 'heart') setActiveAudioSource('raw');
+          return;
+      }
+      processHeartSuppression();
+  };
+
+  // --- NOISE REDUCTION ---
+  const processDenoise = async (selection: TimeSelection) => {
+      if (!currentFile) return;
+      setIsProcessingDenoise(true);
+      addLog(`Noise profile: ${selection.start.toFixed(2)}s - ${selection.end.toFixed(2)}s`);
+
+      try {
+          const audioBuffer = await decodeAudioUrl(currentFile.url);
+          const input = getChannels(audioBuffer);
+          const profile = captureNoiseProfile(input, audioBuffer.sampleRate, selection.start, selection.end);
+          if (!profile) {
+              addLog('Error: Noise selection is too short for a profile. Select a longer quiet span.');
+              return;
+          }
+
+          const rendered = createAudioBuffer(spectralSubtract(input, profile), audioBuffer.sampleRate);
+          setDenoisedUrl(URL.createObjectURL(bufferToWave(rendered, rendered.length)));
+          setNoiseProfile(profile);
+          setIsSelectingNoise(false);
+          setActiveAudioSource('denoised');
+          addLog(`Spectral subtraction applied (${profile.frames} profile frames). Switched active source.`);
+      } catch (error: any) {
+          addLog(`Error: ${error.message}`);
+          console.error(error);
+      } finally {
+          setIsProcessingDenoise(false);
+      }
+  };
+
+  const handleToggleNoiseSelection = () => {
+      if (isSelectingNoise) setNoiseSelection(null);
+      else addLog('Drag over a quiet span of the raw track (ambient noise, no breath sounds).');
+      setIsSelectingNoise(!isSelectingNoise);
+  };
+
+  const handleRemoveDenoised = () => {
+      setDenoisedUrl(null);
+      setNoiseProfile(null);
+      setNoiseSelection(null);
+      if (activeAudioSource === 'denoised') setActiveAudioSource('raw');
+  };
+
   // --- AI REGION PARSING ---
   useEffect(() => {
     if (!aiAnalysisOutput) {
@@ -196,35 +482,7 @@ export const CenterStage: React.FC<CenterStageProps> = ({
         return;
     }
     
-    // Improved Regex for timestamps
-    const regex = /(\d{1,2}):(\d{2}(?:\.\d{1,3})?)\s*(?:[-–—]|to)\s*(\d{1,2}):(\d{2}(?:\.\d{1,3})?)/gi;
-    
-    let match;
-    const parsedRegions: RegionData[] = [];
-
-    while ((match = regex.exec(aiAnalysisOutput)) !== null) {
-        const startMin = parseInt(match[1], 10);
-        const startSec = parseFloat(match[2]);
-        const endMin = parseInt(match[3], 10);
-        const endSec = parseFloat(match[4]);
-
-        const start = startMin * 60 + startSec;
-        const end = endMin * 60 + endSec;
-
-        if (end <= start) continue;
-
-        const id = `ai-region-${start}-${end}`;
-        
-        if (!parsedRegions.find(r => r.id === id)) {
-            parsedRegions.push({
-                id,
-                start,
-                end,
-                content: 'AI Diagnosis',
-                color: 'rgba(168, 85, 247, 0.9)'
-            });
-        }
-    }
+    const parsedRegions = parseAIRegions(aiAnalysisOutput);
     
     const isDifferent = JSON.stringify(parsedRegions) !== JSON.stringify(aiRegions);
     if (isDifferent) {
@@ -235,10 +493,282 @@ export const CenterStage: React.FC<CenterStageProps> = ({
     }
   }, [aiAnalysisOutput, aiRegions]);
 
-  const handleClinicalRegionsLoaded = (regions: RegionData[], fileName: string) => {
+  // --- DETECTORS ---
+  const handleDetectCrackles = async () => {
+      if (!currentFile) return;
+      setIsDetectingCrackles(true);
+      try {
+          const audioBuffer = await decodeAudioUrl(currentFile.url);
+          const { regions, transients } = detectCrackles(getChannels(audioBuffer), audioBuffer.sampleRate);
+          setCrackleCandidates(regions);
+          addLog(`Crackle detector: ${transients} transients, ${regions.length} candidate regions.`);
+      } catch (error: any) {
+          addLog(`Error: ${error.message}`);
+          console.error(error);
+      } finally {
+          setIsDetectingCrackles(false);
+      }
+  };
+
+  const handleDetectWheezes = async () => {
+      if (!currentFile) return;
+      setIsDetectingWheezes(true);
+      try {
+          const audioBuffer = await decodeAudioUrl(currentFile.url);
+          const events = detectWheezes(getChannels(audioBuffer), audioBuffer.sampleRate);
+          setWheezeEvents(events);
+          addLog(`Wheeze detector: ${events.length} tonal tracks${events.length > 0 ? ` (${events.map(e => `${Math.round(e.frequency)}Hz`).join(', ')})` : ''}.`);
+      } catch (error: any) {
+          addLog(`Error: ${error.message}`);
+          console.error(error);
+      } finally {
+          setIsDetectingWheezes(false);
+      }
+  };
+
+  const wheezeCandidates = wheezeEvents.map(e => e.region);
+  const detectorCandidates = [...crackleCandidates, ...wheezeCandidates];
+  const wheezeContours = useMemo(() => wheezeEvents.map(e => e.contour), [wheezeEvents]);
+
+  const handleDiscardDetectorCandidates = () => {
+      setCrackleCandidates([]);
+      setWheezeEvents([]);
+  };
+
+  const handleSegmentPhases = async () => {
+      if (!currentFile) return;
+      setIsSegmentingPhases(true);
+      try {
+          const audioBuffer = await decodeAudioUrl(currentFile.url);
+          const segmentation = segmentBreathPhases(getChannels(audioBuffer), audioBuffer.sampleRate);
+          setBreathPhases(segmentation);
+          addLog(`Breath phases: ${segmentation.regions.length} segments, RR ${segmentation.respiratoryRate ? segmentation.respiratoryRate.toFixed(1) : '-'}/min, I:E ${formatIERatio(segmentation.ieRatio)}.`);
+      } catch (error: any) {
+          addLog(`Error: ${error.message}`);
+          console.error(error);
+      } finally {
+          setIsSegmentingPhases(false);
+      }
+  };
+
+  // Pre-annotation: candidates become ordinary (editable) clinical labels
+  const handleAcceptDetectorCandidates = () => {
+      const stamp = Date.now();
+      const accepted = detectorCandidates.map((r, i) => ({ ...r, id: `clinical-detector-${stamp}-${i}` }));
+      setClinicalRegions(prev => [...prev, ...accepted].sort((a, b) => a.start - b.start));
+      handleDiscardDetectorCandidates();
+      addLog(`Added ${accepted.length} detector regions to the clinical labels.`);
+  };
+
+  // Findings are timed against the phases using the best available events: clinical labels,
+  // then detector candidates, then Gemini
+  const phaseFindingSources = [
+      { label: 'Clinical labels', regions: clinicalRegions.filter(r => !isCycleRegion(r)) },
+      { label: 'Detector', regions: detectorCandidates },
+      { label: 'Gemini', regions: aiRegions },
+  ];
+  const phaseFindingSource = phaseFindingSources.find(source => source.regions.length > 0) || phaseFindingSources[0];
+  const phaseFindings = breathPhases ? summarizePhaseFindings(phaseFindingSource.regions, breathPhases.regions) : [];
+
+  // Read-only lanes drawn under the clinical and Gemini lanes (memoized: the timeline keys effects on them)
+  const detectorLanes: DetectorLane[] = useMemo(() => [
+      ...(breathPhases && breathPhases.regions.length > 0 ? [{ id: 'phase', label: 'Detector: Breath Phases', regions: breathPhases.regions, badgeColor: 'text-sky-400' }] : []),
+      ...(crackleCandidates.length > 0 ? [{ id: 'crackle', label: 'Detector: Crackles', regions: crackleCandidates, badgeColor: 'text-orange-400' }] : []),
+      ...(wheezeEvents.length > 0 ? [{
+          id: 'wheeze',
+          label: 'Detector: Wheezes',
+          regions: wheezeEvents.map(e => ({ ...e.region, content: `Wheeze · ${Math.round(e.frequency)} Hz · ${e.duration.toFixed(2)} s` })),
+          badgeColor: 'text-lime-400'
+      }] : []),
+  ], [breathPhases, crackleCandidates, wheezeEvents]);
+
+  // --- REGION NAVIGATOR ---
+  const navigatorGroups: RegionSourceGroup[] = [
+      { id: 'clinical', label: 'Clinical', regions: clinicalRegions },
+      { id: 'ai', label: 'Gemini AI', regions: aiRegions },
+      ...detectorLanes.map(lane => ({ id: lane.id, label: lane.label, regions: lane.regions })),
+  ];
+  const navigatorRows = buildNavigatorRows(navigatorGroups, overlapThreshold);
+
+  const handleNavigateToRegion = (region: RegionData) => {
+      handleSeek(region.start);
+      setSelectedRegionId(region.id);
+  };
+
+  // "Zoom to selection": the loop, else the region selected on the timeline / navigator
+  const zoomSelection: TimeSelection | null = loop || navigatorGroups.flatMap(g => g.regions).find(r => r.id === selectedRegionId) || null;
+  const handleZoomToSelection = () => {
+      if (zoomSelection) zoomToSpan(zoomSelection);
+      else addLog('Set a loop or select a region to zoom to it.');
+  };
+
+  // --- KEYBOARD SHORTCUTS ---
+  useEffect(() => saveShortcutBindings(shortcutBindings), [shortcutBindings]);
+
+  // Regions N/P step through: everything drawn on the timeline except the breath phases
+  const navigationStarts = [...clinicalRegions, ...detectorCandidates, ...aiRegions].map(r => r.start).sort((a, b) => a - b);
+
+  // Toggle a label over the looped span, else over the breath cycle at the playhead
+  const handleLabelShortcut = (cls: AnnotationClass) => {
+      const span = loop || breathCycleAt(currentTime);
+      if (!span) {
+          addLog(`No loop or breath cycle at the playhead to label as ${cls}.`);
+          return;
+      }
+      const isSame = (r: RegionData) => r.content === cls && Math.abs(r.start - span.start) < 1e-3 && Math.abs(r.end - span.end) < 1e-3;
+      if (clinicalRegions.some(isSame)) {
+          setClinicalRegions(prev => prev.filter(r => !isSame(r)));
+          addLog(`Removed ${cls} label (${span.start.toFixed(2)}s - ${span.end.toFixed(2)}s).`);
+          return;
+      }
+      const region = { id: `clinical-manual-${Date.now()}`, start: span.start, end: span.end, content: cls, color: annotationColor(cls) };
+      setClinicalRegions(prev => [...prev, region].sort((a, b) => a.start - b.start));
+      addLog(`Labeled ${cls} (${span.start.toFixed(2)}s - ${span.end.toFixed(2)}s).`);
+  };
+
+  const clampTime = (time: number) => Math.min(Math.max(0, time), duration || time);
+
+  // First press starts at 1×, each further press in the same direction goes faster
+  const nextShuttleSpeed = (speed: number) => SHUTTLE_SPEEDS.find(s => s > speed) ?? SHUTTLE_SPEEDS[SHUTTLE_SPEEDS.length - 1];
+
+  // Reverse shuttle: step the (paused) playhead back until it reaches the start or is stopped
+  useEffect(() => {
+      if (reverseShuttleSpeed === 0) return;
+      let time = currentTime;
+      const timer = window.setInterval(() => {
+          time = Math.max(0, time - reverseShuttleSpeed * SHUTTLE_REVERSE_STEP_MS / 1000);
+          handleSeek(time);
+          if (time === 0) setReverseShuttleSpeed(0);
+      }, SHUTTLE_REVERSE_STEP_MS);
+      return () => window.clearInterval(timer);
+  }, [reverseShuttleSpeed]);
+
+  const runShortcut = (action: ShortcutAction) => {
+      const labelClass = LABEL_SHORTCUT_CLASSES[action];
+      if (labelClass) {
+          handleLabelShortcut(labelClass);
+          return;
+      }
+      switch (action) {
+          case 'togglePlay': handleTogglePlay(); break;
+          case 'shuttleBack':
+              setIsPlaying(false);
+              setReverseShuttleSpeed(nextShuttleSpeed(reverseShuttleSpeed));
+              break;
+          case 'shuttleStop':
+              setIsPlaying(false);
+              setReverseShuttleSpeed(0);
+              setPlaybackRate(1);
+              break;
+          case 'shuttleForward':
+              setPlaybackRate(nextShuttleSpeed(isPlaying ? playbackRate : 0));
+              setIsPlaying(true);
+              break;
+          case 'nudgeBack': handleSeek(clampTime(currentTime - NUDGE_SECONDS)); break;
+          case 'nudgeForward': handleSeek(clampTime(currentTime + NUDGE_SECONDS)); break;
+          case 'nudgeBackLarge': handleSeek(clampTime(currentTime - NUDGE_LARGE_SECONDS)); break;
+          case 'nudgeForwardLarge': handleSeek(clampTime(currentTime + NUDGE_LARGE_SECONDS)); break;
+          case 'nextRegion': {
+              const next = navigationStarts.find(t => t > currentTime + 0.05);
+              if (next !== undefined) handleSeek(next);
+              break;
+          }
+          case 'previousRegion': {
+              const previous = [...navigationStarts].reverse().find(t => t < currentTime - 0.05);
+              if (previous !== undefined) handleSeek(previous);
+              break;
+          }
+          case 'zoomIn': handleZoomIn(); break;
+          case 'zoomOut': handleZoomOut(); break;
+          case 'zoomToFit': handleZoomToFit(); break;
+          case 'zoomToSelection': handleZoomToSelection(); break;
+          case 'toggleMonitor':
+              if (activeAudioSource !== 'raw') setActiveAudioSource('raw');
+              else if (filteredAudioUrl) setActiveAudioSource('filtered');
+              break;
+          case 'showHelp': setIsShortcutHelpOpen(prev => !prev); break;
+      }
+  };
+
+  // One window listener for the component's lifetime; it always calls the latest handler
+  const runShortcutRef = useRef(runShortcut);
+  runShortcutRef.current = runShortcut;
+  const shortcutBindingsRef = useRef(shortcutBindings);
+  shortcutBindingsRef.current = shortcutBindings;
+  const canUseShortcutsRef = useRef(false);
+  canUseShortcutsRef.current = !!currentFile && !isExportOpen && !isBatchMode && !isHistoryOpen && !isShortcutHelpOpen;
+
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (isEditableTarget(e.target)) return;
+          const key = keyFromEvent(e);
+          const action = key ? findShortcutAction(shortcutBindingsRef.current, key) : null;
+          if (!action) return;
+          if (action !== 'showHelp' && !canUseShortcutsRef.current) return;
+          // Held keys repeat for nudging only
+          if (e.repeat && !action.startsWith('nudge')) return;
+          e.preventDefault();
+          runShortcutRef.current(action);
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // --- WHEEL ZOOM / PAN ---
+  // Over a track: Ctrl+wheel (trackpad pinch arrives as one) zooms about the pointer; a horizontal
+  // or Shift+wheel scrolls every track without moving the playhead. Both leave the view unfollowed.
+  const handleWheel = (e: WheelEvent) => {
+      const viewport = e.target instanceof Element && !e.target.closest('[data-overview]') ? e.target.closest('[data-track-viewport]') : null;
+      if (!viewport || duration <= 0) return;
+      const rect = viewport.getBoundingClientRect();
+      const view = visibleWindow(duration, currentTime, zoomLevel, rect.width, viewStart);
+      const pxPerSec = rect.width / (view.end - view.start);
+      if (e.ctrlKey || e.metaKey) {
+          e.preventDefault();
+          const x = e.clientX - rect.left;
+          const zoom = clampZoom(pxPerSec * Math.exp(-wheelDeltaPixels(e, e.deltaY) * WHEEL_ZOOM_RATE));
+          setZoomLevel(zoom);
+          setViewStart(zoomAround(view.start + x / pxPerSec, x, Math.max(zoom, rect.width / duration)));
+          return;
+      }
+      const delta = e.shiftKey ? e.deltaX || e.deltaY : Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : 0;
+      if (!delta) return;
+      e.preventDefault();
+      const maxStart = duration - (view.end - view.start);
+      setViewStart(Math.min(Math.max(0, view.start + wheelDeltaPixels(e, delta) / pxPerSec), maxStart));
+  };
+
+  const handleWheelRef = useRef(handleWheel);
+  handleWheelRef.current = handleWheel;
+
+  useEffect(() => {
+      const onWheel = (e: WheelEvent) => handleWheelRef.current(e);
+      // Not passive: the wheel's own scrolling (page, or a single track's scrollbar) is suppressed
+      window.addEventListener('wheel', onWheel, { passive: false });
+      return () => window.removeEventListener('wheel', onWheel);
+  }, []);
+
+  // --- AGREEMENT METRICS ---
+  // Clinical labels are the reference; Gemini or the detector is the prediction
+  const hasClinicalEvents = clinicalRegions.some(r => !isCycleRegion(r)) || breathCycles.length > 0;
+  const availableAgreementSources = [
+      ...(aiRegions.length > 0 ? ['ai' as const] : []),
+      ...(detectorCandidates.length > 0 ? ['detector' as const] : []),
+  ];
+  const activeAgreementSource = availableAgreementSources.includes(agreementSource) ? agreementSource : availableAgreementSources[0];
+  const agreementReport = hasClinicalEvents && activeAgreementSource
+      ? evaluateAgreement(clinicalRegions, activeAgreementSource === 'detector' ? detectorCandidates : aiRegions, overlapThreshold)
+      : null;
+
+  const handleClinicalRegionsLoaded = (regions: RegionData[], fileName: string, issues: LabelParseIssue[] = []) => {
       setClinicalRegions(regions);
       setCurrentLabelFile(fileName);
       addLog(`Labels: ${fileName}`);
+      if (issues.length > 0) {
+          addLog(`Skipped ${issues.length} label entries:`);
+          issues.slice(0, 10).forEach(issue => addLog(`  ${formatParseIssue(issue)}`));
+          if (issues.length > 10) addLog(`  ...and ${issues.length - 10} more.`);
+      }
   };
 
   const handleClearClinicalRegions = () => {
@@ -247,6 +777,65 @@ export const CenterStage: React.FC<CenterStageProps> = ({
       addLog('Labels cleared.');
   };
 
+  const handleExportLabels = (format: LabelExportFormat) => {
+      if (!currentFile || clinicalRegions.length === 0) return;
+      const { extension, mimeType } = LABEL_EXPORT_FORMATS[format];
+      const baseName = currentFile.name.substring(0, currentFile.name.lastIndexOf('.')) || currentFile.name;
+      // ICBHI keeps the recording basename so the pair stays loadable; other formats get a suffix
+      const fileName = format === 'icbhi' ? `${baseName}${extension}` : `${baseName}_${format}${extension}`;
+
+      downloadBlob(new Blob([serializeLabels(clinicalRegions, format)], { type: mimeType }), fileName);
+      addLog(`Exported ${clinicalRegions.length} labels: ${fileName}`);
+  };
+
+  // --- AUDIO EXPORT ---
+  // Every track that can be heard can also be exported
+  const exportSources: AudioExportSource[] = [
+      ...(currentFile ? [{ id: 'raw', label: 'Raw', url: currentFile.url }] : []),
+      ...(filteredAudioUrl ? [{ id: 'filtered', label: 'Filtered', url: filteredAudioUrl }] : []),
+      ...(heartSuppressedUrl ? [{ id: 'heart', label: 'Heart Suppressed', url: heartSuppressedUrl }] : []),
+      ...(denoisedUrl ? [{ id: 'denoised', label: 'Denoised', url: denoisedUrl }] : []),
+  ];
+
+  const handleExportAudio = async (source: AudioExportSource, options: WavExportOptions) => {
+      if (!currentFile) return;
+      const fileBaseName = currentFile.name.substring(0, currentFile.name.lastIndexOf('.')) || currentFile.name;
+      const baseName = source.id === 'raw' ? fileBaseName : `${fileBaseName}_${source.id}`;
+      try {
+          const audioBuffer = await decodeAudioUrl(source.url);
+          const clips = await exportWavClips(audioBuffer, baseName, options, clinicalRegions);
+          // One download: a burst of them is blocked by browsers after the first
+          if (clips.length === 1) downloadBlob(clips[0].blob, clips[0].fileName);
+          else if (clips.length > 1) downloadBlob(await createZip(clips), `${baseName}_regions.zip`);
+          addLog(`Exported ${clips.length} ${source.label} clip${clips.length === 1 ? '' : 's'}: ${WAV_BIT_DEPTHS[options.bitDepth]}, ${options.mono ? 'mono' : `${audioBuffer.numberOfChannels}ch`}, ${options.sampleRate || audioBuffer.sampleRate}Hz`);
+      } catch (error: any) {
+          addLog(`Error: could not export audio (${error.message})`);
+          console.error(error);
+          throw error; // The dialog stays open and shows it
+      }
+  };
+
+  const handleSaveSession = async () => {
+      setIsSavingSession(true);
+      try {
+          await onSaveSession();
+          addLog('Session saved.');
+      } catch (error: any) {
+          addLog(`Error: could not save session (${error.message})`);
+      } finally {
+          setIsSavingSession(false);
+      }
+  };
+
+  const handleReopenSession = async (session: AnalysisSession) => {
+      setIsHistoryOpen(false);
+      try {
+          await onReopenSession(session);
+      } catch (error: any) {
+          addLog(`Error: could not reopen session (${error.message})`);
+      }
+  };
+
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => { e.preventDefault(); setIsDragging(true); };
   const handleDrop = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault(); setIsDragging(false);
@@ -254,27 +843,65 @@ export const CenterStage: React.FC<CenterStageProps> = ({
   };
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => { if (e.target.files) processFiles(e.target.files); };
 
-  const processFiles = (files: FileList) => {
-    const file = files[0];
-    if (!file.type.startsWith('audio/') && !file.name.endsWith('.wav')) {
-        addLog(`Invalid file: ${file.type}`);
+  const toAudioFile = (file: File): AudioFile => ({
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    url: URL.createObjectURL(file)
+  });
+
+  const rejectFiles = (message: string) => {
+    setUploadError(message);
+    addLog(`Error: ${message}`);
+  };
+
+  const processFiles = async (files: FileList) => {
+    const audioFiles = Array.from(files).filter(isSupportedAudioFile);
+    if (audioFiles.length === 0) {
+        rejectFiles(`Unsupported file: ${files[0].name}. Supported: ${SUPPORTED_AUDIO_EXTENSIONS.join(', ')}.`);
         return;
     }
-    const url = URL.createObjectURL(file);
-    setCurrentFile({
-      name: file.name,
-      size: file.size,
-      type: file.type,
-      lastModified: file.lastModified,
-      url: url
-    });
+
+    // Several channels of one multichannel recording load together; otherwise only the first file
+    const set = findMultichannelSet(audioFiles);
+    const selected = set.length > 0 ? set.map(({ file }) => file) : [audioFiles[0]];
+    const sizeError = selected.map(checkAudioFileSize).find(Boolean);
+    if (sizeError) {
+        rejectFiles(sizeError);
+        return;
+    }
+
+    // Decode up front: enforces the duration limit and warms the shared cache for the tracks
+    const loadedFiles = selected.map(toAudioFile);
+    setIsLoadingFiles(true);
+    try {
+        await Promise.all(loadedFiles.map(f => decodeAudioUrl(f.url)));
+    } catch (error: any) {
+        loadedFiles.forEach(f => revokeAudioUrl(f.url));
+        rejectFiles(error.message);
+        return;
+    } finally {
+        setIsLoadingFiles(false);
+    }
+
+    setUploadError(null);
+    if (set.length > 0) {
+        const loaded = set.map(({ file, location }, i) => ({ id: file.name, location, file: loadedFiles[i] }));
+        setChannels(loaded);
+        setCurrentFile(loaded[0].file);
+    } else {
+        setChannels([]);
+        setCurrentFile(loadedFiles[0]);
+    }
     setClinicalRegions([]);
     setCurrentLabelFile(null);
   };
 
   const clearFile = () => {
-    if (currentFile) URL.revokeObjectURL(currentFile.url);
-    if (filteredAudioUrl) URL.revokeObjectURL(filteredAudioUrl);
+    if (currentFile) revokeAudioUrl(currentFile.url);
+    channels.forEach(c => { if (c.file.url !== currentFile?.url) revokeAudioUrl(c.file.url); });
+    setChannels([]);
     setCurrentFile(null);
     setClinicalRegions([]);
     setCurrentLabelFile(null);
@@ -287,12 +914,69 @@ export const CenterStage: React.FC<CenterStageProps> = ({
       <header className={`h-14 border-b flex items-center justify-between px-6 z-20 transition-colors ${isDarkMode ? 'border-slate-800 bg-slate-950' : 'border-slate-200 bg-white'}`}>
         <div className="flex items-center space-x-2">
             <Activity className={isDarkMode ? "text-cyan-500" : "text-teal-600"} size={20} />
-            <h2 className={`font-bold uppercase tracking-widest text-sm ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>Multi-Track Editor</h2>
+            <h2 className={`font-bold uppercase tracking-widest text-sm ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>{isBatchMode ? 'Batch Evaluation' : isHistoryOpen ? 'Session History' : 'Multi-Track Editor'}</h2>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => { setIsHistoryOpen(!isHistoryOpen); setIsBatchMode(false); }}
+            title="Saved sessions in this browser"
+            className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${
+                isHistoryOpen
+                ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+                : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+            }`}
+          >
+             <History size={12} className="mr-1.5" />
+             History
+          </button>
+          <button
+            onClick={() => { setIsBatchMode(!isBatchMode); setIsHistoryOpen(false); }}
+            title="Evaluate a folder of ICBHI recordings"
+            className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${
+                isBatchMode
+                ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+                : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+            }`}
+          >
+             <Layers size={12} className="mr-1.5" />
+             Batch
+          </button>
         </div>
       </header>
 
       {/* 2. Main Workspace */}
       <div className="flex-1 relative flex flex-col overflow-hidden">
+        {/* Batch mode overlays the editor so the current session is kept underneath */}
+        {isBatchMode && <BatchEvaluation onClose={() => setIsBatchMode(false)} isDarkMode={isDarkMode} />}
+        {isHistoryOpen && (
+            <SessionHistory
+              activeSessionId={activeSessionId}
+              onReopen={handleReopenSession}
+              onClose={() => setIsHistoryOpen(false)}
+              isDarkMode={isDarkMode}
+            />
+        )}
+        {isExportOpen && currentFile && (
+            <AudioExportDialog
+              sources={exportSources}
+              initialSourceId={activeAudioSource}
+              duration={duration}
+              initialSelection={noiseSelection}
+              regionCount={clinicalRegions.length}
+              onExport={handleExportAudio}
+              onClose={() => setIsExportOpen(false)}
+              isDarkMode={isDarkMode}
+            />
+        )}
+        {isShortcutHelpOpen && (
+            <ShortcutHelpOverlay
+              bindings={shortcutBindings}
+              onChange={setShortcutBindings}
+              onClose={() => setIsShortcutHelpOpen(false)}
+              isDarkMode={isDarkMode}
+            />
+        )}
+
         <AnimatePresence mode="wait">
           {!currentFile && (
             <motion.div
@@ -306,17 +990,19 @@ export const CenterStage: React.FC<CenterStageProps> = ({
               onDrop={handleDrop}
               onClick={() => fileInputRef.current?.click()}
             >
-              <input type="file" ref={fileInputRef} className="hidden" accept="audio/*,.wav,.mp3" onChange={handleFileInput} />
+              <input type="file" ref={fileInputRef} className="hidden" accept={AUDIO_FILE_ACCEPT} multiple onChange={handleFileInput} />
               <div className={`p-6 border-2 border-dashed rounded-2xl flex flex-col items-center justify-center cursor-pointer transition-all group ${
                   isDarkMode 
                   ? 'border-slate-700 hover:border-cyan-500 hover:bg-slate-900' 
                   : 'border-slate-300 hover:border-teal-500 hover:bg-white'
               }`}>
                   <div className={`p-4 rounded-full mb-4 group-hover:scale-110 transition-transform ${isDarkMode ? 'bg-slate-800 text-cyan-400' : 'bg-slate-100 text-teal-600'}`}>
-                      <UploadCloud size={48} />
+                      {isLoadingFiles ? <Loader2 size={48} className="animate-spin" /> : <UploadCloud size={48} />}
                   </div>
-                  <h3 className={`text-xl font-medium mb-1 ${isDarkMode ? 'text-slate-200' : 'text-slate-900'}`}>Drop Audio File</h3>
-                  <p className="text-slate-500 text-sm">WAV, MP3 (Max 50MB)</p>
+                  <h3 className={`text-xl font-medium mb-1 ${isDarkMode ? 'text-slate-200' : 'text-slate-900'}`}>{isLoadingFiles ? 'Decoding...' : 'Drop Audio File'}</h3>
+                  <p className="text-slate-500 text-sm">WAV, FLAC, OGG, MP3 (Max {MAX_FILE_SIZE_MB}MB, {MAX_DURATION_MINUTES} min)</p>
+                  <p className="text-slate-600 text-xs mt-1">Drop all channels of a multichannel recording to compare sites</p>
+                  {uploadError && <p className="text-red-400 text-xs font-mono mt-3 max-w-sm text-center">{uploadError}</p>}
               </div>
             </motion.div>
           )}
@@ -337,11 +1023,93 @@ export const CenterStage: React.FC<CenterStageProps> = ({
                       <FileAudio size={16} className="text-slate-500" />
                       <span className={`text-sm font-mono ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>{currentFile.name}</span>
                       <span className="text-xs text-slate-600 font-mono">{(currentFile.size / 1024 / 1024).toFixed(2)} MB</span>
+                      {channels.length > 1 && (
+                          <span className={`text-[10px] font-mono px-1.5 py-0.5 rounded border ${isDarkMode ? 'text-cyan-400 border-cyan-900 bg-cyan-950/40' : 'text-teal-700 border-teal-200 bg-teal-50'}`}>
+                              {channels.length} channels
+                          </span>
+                      )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                      <button
+                        onClick={handleToggleHeartSuppression}
+                        disabled={isProcessingHeart}
+                        title={heartSuppressedUrl ? 'Remove Heart-Suppressed Track' : 'Suppress Heart Sounds (S1/S2)'}
+                        className={`p-1 transition-colors disabled:opacity-40 ${heartSuppressedUrl ? 'text-rose-500' : `text-slate-500 ${isDarkMode ? 'hover:text-cyan-400' : 'hover:text-teal-600'}`}`}
+                      >
+                         {isProcessingHeart ? <Loader2 size={16} className="animate-spin" /> : <HeartPulse size={16} />}
+                      </button>
+                      <button
+                        onClick={() => setIsFilterEditorOpen(!isFilterEditorOpen)}
+                        title="Edit Filter Chain"
+                        className={`p-1 transition-colors ${isFilterEditorOpen ? 'text-emerald-500' : `text-slate-500 ${isDarkMode ? 'hover:text-cyan-400' : 'hover:text-teal-600'}`}`}
+                      >
+                         <SlidersHorizontal size={16} />
+                      </button>
+                      <button
+                        onClick={() => setIsShortcutHelpOpen(true)}
+                        title="Keyboard Shortcuts (?)"
+                        className={`p-1 text-slate-500 ${isDarkMode ? 'hover:text-cyan-400' : 'hover:text-teal-600'}`}
+                      >
+                         <Keyboard size={16} />
+                      </button>
+                      <button
+                        onClick={() => setIsExportOpen(true)}
+                        title="Export Audio (WAV)"
+                        className={`p-1 text-slate-500 ${isDarkMode ? 'hover:text-cyan-400' : 'hover:text-teal-600'}`}
+                      >
+                         <Download size={16} />
+                      </button>
+                      <button
+                        onClick={handleSaveSession}
+                        disabled={isSavingSession}
+                        title={activeSessionId ? 'Update Saved Session' : 'Save Session'}
+                        className={`p-1 text-slate-500 disabled:opacity-40 ${isDarkMode ? 'hover:text-cyan-400' : 'hover:text-teal-600'}`}
+                      >
+                         {isSavingSession ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                      </button>
+                      <button onClick={clearFile} className="p-1 hover:text-red-400 text-slate-500"><X size={16} /></button>
                   </div>
-                  <button onClick={clearFile} className="p-1 hover:text-red-400 text-slate-500"><X size={16} /></button>
                </div>
 
-               {/* Track 1: Raw Signal */}
+               {/* Overview: whole recording, with the tracks' shared viewport */}
+               <TrackRow
+                  title="Overview"
+                  subtitle={viewStart === null ? 'Following playhead' : `View @ ${viewStart.toFixed(2)}s`}
+                  icon={<MapIcon size={14} />}
+                  height="80px"
+                  isDarkMode={isDarkMode}
+                  controls={
+                      viewStart !== null && (
+                          <button
+                            onClick={() => setViewStart(null)}
+                            title="Scroll the tracks with the playhead again"
+                            className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800'}`}
+                          >
+                             <Crosshair size={12} className="mr-1.5" />
+                             Follow
+                          </button>
+                      )
+                  }
+               >
+                  <OverviewMinimap
+                      audioUrl={currentFile.url}
+                      duration={duration}
+                      currentTime={currentTime}
+                      zoomLevel={zoomLevel}
+                      viewStart={viewStart}
+                      regions={navigatorGroups.flatMap(group => group.regions)}
+                      onViewChange={handleViewChange}
+                      onWidthChange={setViewportWidth}
+                      onSeek={(time) => {
+                          setViewStart(null);
+                          handleSeek(time);
+                      }}
+                      isDarkMode={isDarkMode}
+                  />
+               </TrackRow>
+
+               {/* Track 1: Raw Signal (single file) */}
+               {channels.length <= 1 && (
                <TrackRow 
                   title="Raw Signal" 
                   subtitle="Primary Source"
@@ -350,6 +1118,29 @@ export const CenterStage: React.FC<CenterStageProps> = ({
                   isDarkMode={isDarkMode}
                   controls={
                       <div className="flex space-x-2">
+                          {isSelectingNoise && noiseSelection && (
+                              <button
+                                onClick={() => processDenoise(noiseSelection)}
+                                disabled={isProcessingDenoise}
+                                title="Subtract this span's noise spectrum from the whole recording"
+                                className="px-2 py-1 text-[10px] flex items-center rounded border transition-colors disabled:opacity-40 bg-sky-600 text-white border-sky-500 hover:bg-sky-500"
+                              >
+                                 {isProcessingDenoise ? <Loader2 size={12} className="mr-1.5 animate-spin" /> : <Sparkles size={12} className="mr-1.5" />}
+                                 Denoise ({(noiseSelection.end - noiseSelection.start).toFixed(2)}s)
+                              </button>
+                          )}
+                          <button
+                            onClick={handleToggleNoiseSelection}
+                            title={isSelectingNoise ? 'Cancel Noise Selection' : 'Select a quiet span as the noise profile'}
+                            className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${
+                                isSelectingNoise
+                                ? 'bg-sky-600 text-white border-sky-500'
+                                : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+                            }`}
+                          >
+                             <Eraser size={12} className="mr-1.5" />
+                             Noise
+                          </button>
                           <button 
                             onClick={() => setActiveAudioSource('raw')}
                             className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${
@@ -373,19 +1164,186 @@ export const CenterStage: React.FC<CenterStageProps> = ({
                       onSeek={handleSeek}
                       isPlaying={isPlaying}
                       volume={activeAudioSource === 'raw' ? (isMuted ? 0 : volume) : 0}
+                      playbackRate={playbackRate}
                       onTimeUpdate={activeAudioSource === 'raw' ? handleTimeUpdate : undefined}
                       zoomLevel={zoomLevel}
+                      scrollTime={viewStart}
+                      liveFilter={liveFilter}
+                      frequencyContours={wheezeContours}
+                      isSelecting={isSelectingNoise}
+                      selection={isSelectingNoise ? noiseSelection : null}
+                      onSelectionChange={setNoiseSelection}
                       isDarkMode={isDarkMode}
                   />
                </TrackRow>
+               )}
+
+               {/* Track 1: Raw Signal per chest location (multichannel set, time-locked to the first channel) */}
+               {channels.length > 1 && channels.map((channel, index) => {
+                  const isAudible = activeAudioSource === 'raw' && isChannelAudible(channel.id);
+                  return (
+                     <TrackRow
+                        key={channel.id}
+                        title={`Raw · ${channel.location}`}
+                        subtitle={channel.id}
+                        icon={<Radio size={14} />}
+                        height="260px"
+                        isDarkMode={isDarkMode}
+                        controls={
+                            <div className="flex space-x-2">
+                                <button
+                                  onClick={() => handleToggleChannelMonitor(channel.id)}
+                                  title="Include this channel in the mix"
+                                  className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${
+                                      isAudible
+                                      ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+                                      : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+                                  }`}
+                                >
+                                   <Headphones size={12} className="mr-1.5" />
+                                   Monitor
+                                </button>
+                                <button
+                                  onClick={() => handleToggleChannelSolo(channel.id)}
+                                  title="Listen to this channel only"
+                                  className={`px-2 py-1 text-[10px] font-bold rounded border transition-colors ${
+                                      soloChannel === channel.id
+                                      ? 'bg-amber-500 text-white border-amber-400'
+                                      : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+                                  }`}
+                                >
+                                   S
+                                </button>
+                            </div>
+                        }
+                     >
+                        <WaveformTrack
+                            audioUrl={channel.file.url}
+                            waveColor={isDarkMode ? "#06b6d4" : "#0d9488"}
+                            progressColor={isDarkMode ? "#cffafe" : "#5eead4"}
+                            onReady={index === 0 ? (d) => setDuration(d) : undefined}
+                            seekTo={seekTarget}
+                            onSeek={handleSeek}
+                            isPlaying={isPlaying}
+                            volume={isAudible ? (isMuted ? 0 : volume) : 0}
+                            playbackRate={playbackRate}
+                            onTimeUpdate={index === 0 && activeAudioSource === 'raw' ? handleTimeUpdate : undefined}
+                            zoomLevel={zoomLevel}
+                            scrollTime={viewStart}
+                            liveFilter={liveFilter}
+                            frequencyContours={channel.file.url === currentFile.url ? wheezeContours : undefined}
+                            isDarkMode={isDarkMode}
+                        />
+                     </TrackRow>
+                  );
+               })}
 
                {/* Track 2: Annotations (Timeline) */}
                <TrackRow 
                   title="Annotations" 
                   subtitle="Human & AI Labels"
                   icon={<ListMusic size={14} />} 
-                  height="140px"
                   isDarkMode={isDarkMode}
+                  controls={
+                      <div className="space-y-2">
+                          <div className="flex items-center space-x-1">
+                              <button
+                                onClick={handleDetectCrackles}
+                                disabled={isDetectingCrackles}
+                                title="Run the crackle detector on the raw recording"
+                                className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors disabled:opacity-40 ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800'}`}
+                              >
+                                 {isDetectingCrackles ? <Loader2 size={12} className="mr-1.5 animate-spin" /> : <ScanSearch size={12} className="mr-1.5" />}
+                                 Crackles
+                              </button>
+                              <button
+                                onClick={handleDetectWheezes}
+                                disabled={isDetectingWheezes}
+                                title="Run the wheeze detector on the raw recording"
+                                className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors disabled:opacity-40 ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800'}`}
+                              >
+                                 {isDetectingWheezes ? <Loader2 size={12} className="mr-1.5 animate-spin" /> : <AudioWaveform size={12} className="mr-1.5" />}
+                                 Wheezes
+                              </button>
+                              <button
+                                onClick={handleSegmentPhases}
+                                disabled={isSegmentingPhases}
+                                title="Segment inspiration and expiration from the breath sound envelope"
+                                className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors disabled:opacity-40 ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800'}`}
+                              >
+                                 {isSegmentingPhases ? <Loader2 size={12} className="mr-1.5 animate-spin" /> : <Wind size={12} className="mr-1.5" />}
+                                 Phases
+                              </button>
+                              <button
+                                onClick={() => setIsNavigatorOpen(!isNavigatorOpen)}
+                                title="List Every Region"
+                                className={`p-1 rounded border transition-colors ${
+                                    isNavigatorOpen
+                                    ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+                                    : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+                                }`}
+                              >
+                                 <List size={12} />
+                              </button>
+                              {detectorCandidates.length > 0 && (
+                                  <>
+                                      <button
+                                        onClick={handleAcceptDetectorCandidates}
+                                        title="Add the detector candidates to the clinical labels"
+                                        className="p-1 rounded border transition-colors bg-emerald-600 text-white border-emerald-500 hover:bg-emerald-500"
+                                      >
+                                         <Check size={12} />
+                                      </button>
+                                      <button
+                                        onClick={handleDiscardDetectorCandidates}
+                                        title="Discard Detector Candidates"
+                                        className={`p-1 rounded border transition-colors hover:text-red-400 ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700' : 'bg-white text-slate-500 border-slate-300'}`}
+                                      >
+                                         <X size={12} />
+                                      </button>
+                                  </>
+                              )}
+                          </div>
+                          {clinicalRegions.length > 0 && (
+                              <div className="space-y-2">
+                                  {breathCycles.length > 0 && (
+                                      <div className="flex items-center space-x-1">
+                                          <button
+                                            onClick={() => handleJumpCycle(-1)}
+                                            title="Previous Breath Cycle"
+                                            className={`p-1 rounded border transition-colors ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800'}`}
+                                          >
+                                             <ChevronLeft size={12} />
+                                          </button>
+                                          <span className="text-[10px] text-slate-500 font-mono px-1">
+                                             Cycle {activeCycleIndex >= 0 ? activeCycleIndex + 1 : '-'} / {breathCycles.length}
+                                          </span>
+                                          <button
+                                            onClick={() => handleJumpCycle(1)}
+                                            title="Next Breath Cycle"
+                                            className={`p-1 rounded border transition-colors ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800'}`}
+                                          >
+                                             <ChevronRight size={12} />
+                                          </button>
+                                      </div>
+                                  )}
+                                  <div className="flex items-center space-x-1">
+                                      <Download size={12} className="text-slate-500 mr-0.5" />
+                                      {(Object.keys(LABEL_EXPORT_FORMATS) as LabelExportFormat[]).map(format => (
+                                          <button
+                                            key={format}
+                                            onClick={() => handleExportLabels(format)}
+                                            title={`Export Clinical Labels (${LABEL_EXPORT_FORMATS[format].label})`}
+                                            className={`px-1.5 py-1 text-[10px] rounded border transition-colors ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800'}`}
+                                          >
+                                             {LABEL_EXPORT_FORMATS[format].label}
+                                          </button>
+                                      ))}
+                                  </div>
+                              </div>
+                          )}
+                      </div>
+                  }
                >
                   <TimelineTrack 
                       duration={duration}
@@ -394,13 +1352,252 @@ export const CenterStage: React.FC<CenterStageProps> = ({
                       onSeek={handleSeek}
                       onRegionsLoaded={handleClinicalRegionsLoaded}
                       onClear={handleClearClinicalRegions}
+                      onClinicalRegionsChange={setClinicalRegions}
+                      regionOutcomes={agreementReport && showEvaluationHighlights ? agreementReport.scopes[evaluationScope].outcomes : undefined}
+                      detectorLanes={detectorLanes}
+                      onLoopRegion={handleLoopRegion}
+                      selectedRegionId={selectedRegionId}
+                      onSelectedRegionChange={setSelectedRegionId}
                       currentLabelFile={currentLabelFile}
                       currentTime={currentTime}
                       zoomLevel={zoomLevel}
+                      scrollTime={viewStart}
                       isDarkMode={isDarkMode}
                   />
                </TrackRow>
 
+               {/* Region Navigator (Toggled from the annotation controls) */}
+               {isNavigatorOpen && (
+                  <TrackRow
+                     title="Regions"
+                     subtitle={`${navigatorRows.length} regions · ${navigatorGroups.filter(g => g.regions.length > 0).length} sources`}
+                     icon={<List size={14} />}
+                     height="220px"
+                     isDarkMode={isDarkMode}
+                     controls={
+                         <button
+                           onClick={() => setIsNavigatorOpen(false)}
+                           title="Close Region List"
+                           className={`p-1 rounded border transition-colors hover:text-red-400 ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700' : 'bg-white text-slate-500 border-slate-300'}`}
+                         >
+                            <X size={12} />
+                         </button>
+                     }
+                  >
+                     <RegionNavigator
+                        rows={navigatorRows}
+                        sources={navigatorGroups.filter(g => g.regions.length > 0).map(g => ({ id: g.id, label: g.label }))}
+                        selectedRegionId={selectedRegionId}
+                        onSelect={row => handleNavigateToRegion(row.region)}
+                        isDarkMode={isDarkMode}
+                     />
+                  </TrackRow>
+               )}
+
+               {/* Breath Phases (Conditional) */}
+               {breathPhases && (
+                  <TrackRow
+                     title="Breath Phases"
+                     subtitle={`RR ${breathPhases.respiratoryRate ? breathPhases.respiratoryRate.toFixed(1) : '-'}/min · I:E ${formatIERatio(breathPhases.ieRatio)}`}
+                     icon={<Wind size={14} />}
+                     height="130px"
+                     isDarkMode={isDarkMode}
+                     controls={
+                         <button
+                           onClick={() => setBreathPhases(null)}
+                           title="Remove Breath Phases"
+                           className={`p-1 rounded border transition-colors hover:text-red-400 ${isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700' : 'bg-white text-slate-500 border-slate-300'}`}
+                         >
+                            <X size={12} />
+                         </button>
+                     }
+                  >
+                     <BreathPhasePanel
+                        segmentation={breathPhases}
+                        findings={phaseFindings}
+                        findingsSource={phaseFindingSource.label}
+                        onSeek={handleSeek}
+                        isDarkMode={isDarkMode}
+                     />
+                  </TrackRow>
+               )}
+
+               {/* Agreement: Clinical vs Gemini (Conditional) */}
+               {agreementReport && (
+                  <TrackRow
+                     title="Agreement"
+                     subtitle={`Clinical vs ${activeAgreementSource === 'detector' ? 'Detector' : 'Gemini'}`}
+                     icon={<Target size={14} />}
+                     height="150px"
+                     isDarkMode={isDarkMode}
+                     controls={
+                         availableAgreementSources.length > 1 && (
+                             <div className="flex space-x-1">
+                                 {availableAgreementSources.map(source => (
+                                     <button
+                                       key={source}
+                                       onClick={() => setAgreementSource(source)}
+                                       className={`px-2 py-1 text-[10px] rounded border transition-colors ${
+                                           activeAgreementSource === source
+                                           ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+                                           : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+                                       }`}
+                                     >
+                                        {source === 'detector' ? 'Detector' : 'Gemini'}
+                                     </button>
+                                 ))}
+                             </div>
+                         )
+                     }
+                  >
+                     <EvaluationPanel
+                        report={agreementReport}
+                        scope={evaluationScope}
+                        onScopeChange={setEvaluationScope}
+                        overlapThreshold={overlapThreshold}
+                        onOverlapThresholdChange={setOverlapThreshold}
+                        showHighlights={showEvaluationHighlights}
+                        onToggleHighlights={() => setShowEvaluationHighlights(!showEvaluationHighlights)}
+                        isDarkMode={isDarkMode}
+                     />
+                  </TrackRow>
+               )}
+
+               {/* Heart-Suppressed Signal (Conditional) */}
+               {(heartSuppressedUrl || isProcessingHeart) && (
+                  <TrackRow
+                     title="Heart Suppressed"
+                     subtitle={isProcessingHeart ? 'Processing...' : `${heartEvents.length} S1/S2 events · -${HEART_SUPPRESSION_DEFAULTS.attenuationDb}dB < ${HEART_SUPPRESSION_DEFAULTS.cutoffHz}Hz`}
+                     icon={<HeartPulse size={14} />}
+                     height="260px"
+                     isDarkMode={isDarkMode}
+                     className={isDarkMode ? "bg-rose-950/10" : "bg-rose-50/50"}
+                     controls={
+                         <div className="flex space-x-2">
+                             <button
+                                 onClick={() => setActiveAudioSource('heart')}
+                                 disabled={isProcessingHeart}
+                                 className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${
+                                     activeAudioSource === 'heart'
+                                     ? 'bg-rose-600 text-white border-rose-500'
+                                     : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+                                 }`}
+                             >
+                                 <Headphones size={12} className="mr-1.5" />
+                                 Monitor
+                             </button>
+                         </div>
+                     }
+                  >
+                     {isProcessingHeart ? (
+                         <div className="w-full h-full flex items-center justify-center space-x-2 text-rose-500/50">
+                             <Loader2 className="animate-spin" />
+                             <span className="text-sm font-mono uppercase">Detecting S1/S2...</span>
+                         </div>
+                     ) : (
+                         heartSuppressedUrl && (
+                             <WaveformTrack
+                                 audioUrl={heartSuppressedUrl}
+                                 waveColor="#f43f5e"
+                                 progressColor="#fda4af"
+                                 seekTo={seekTarget}
+                                 onSeek={handleSeek}
+                                 isPlaying={isPlaying}
+                                 volume={activeAudioSource === 'heart' ? (isMuted ? 0 : volume) : 0}
+                                 playbackRate={playbackRate}
+                                 onTimeUpdate={activeAudioSource === 'heart' ? handleTimeUpdate : undefined}
+                                 zoomLevel={zoomLevel}
+                                 scrollTime={viewStart}
+                                 isDarkMode={isDarkMode}
+                             />
+                         )
+                     )}
+                  </TrackRow>
+               )}
+
+               {/* Denoised Signal (Conditional) */}
+               {(denoisedUrl || isProcessingDenoise) && (
+                  <TrackRow
+                     title="Denoised"
+                     subtitle={isProcessingDenoise || !noiseProfile ? 'Processing...' : `Spectral subtraction · ${noiseProfile.frames} profile frames`}
+                     icon={<Sparkles size={14} />}
+                     height="260px"
+                     isDarkMode={isDarkMode}
+                     className={isDarkMode ? "bg-sky-950/10" : "bg-sky-50/50"}
+                     controls={
+                         <div className="flex space-x-2">
+                             <button
+                                 onClick={() => setActiveAudioSource('denoised')}
+                                 disabled={isProcessingDenoise}
+                                 className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${
+                                     activeAudioSource === 'denoised'
+                                     ? 'bg-sky-600 text-white border-sky-500'
+                                     : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+                                 }`}
+                             >
+                                 <Headphones size={12} className="mr-1.5" />
+                                 Monitor
+                             </button>
+                             <button
+                                 onClick={handleRemoveDenoised}
+                                 disabled={isProcessingDenoise}
+                                 title="Remove Denoised Track"
+                                 className="p-1 rounded text-slate-500 hover:text-red-400 transition-colors disabled:opacity-40"
+                             >
+                                 <X size={12} />
+                             </button>
+                         </div>
+                     }
+                  >
+                     {isProcessingDenoise && !denoisedUrl ? (
+                         <div className="w-full h-full flex items-center justify-center space-x-2 text-sky-500/50">
+                             <Loader2 className="animate-spin" />
+                             <span className="text-sm font-mono uppercase">Subtracting Noise Profile...</span>
+                         </div>
+                     ) : (
+                         denoisedUrl && (
+                             <WaveformTrack
+                                 audioUrl={denoisedUrl}
+                                 waveColor="#38bdf8"
+                                 progressColor="#bae6fd"
+                                 seekTo={seekTarget}
+                                 onSeek={handleSeek}
+                                 isPlaying={isPlaying}
+                                 volume={activeAudioSource === 'denoised' ? (isMuted ? 0 : volume) : 0}
+                                 playbackRate={playbackRate}
+                                 onTimeUpdate={activeAudioSource === 'denoised' ? handleTimeUpdate : undefined}
+                                 zoomLevel={zoomLevel}
+                                 scrollTime={viewStart}
+                                 isDarkMode={isDarkMode}
+                             />
+                         )
+                     )}
+                  </TrackRow>
+               )}
+
+               {/* Filter Chain Editor (Conditional) */}
+               {isFilterEditorOpen && (
+                  <TrackRow
+                     title="Filter Chain"
+                     subtitle={`${filterDraft.length} stage${filterDraft.length === 1 ? '' : 's'}${isFilterDraftDirty ? ' · edited' : ''}`}
+                     icon={<SlidersHorizontal size={14} />}
+                     height="200px"
+                     isDarkMode={isDarkMode}
+                  >
+                     <FilterChainEditor
+                        stages={filterDraft}
+                        onChange={setFilterDraft}
+                        onRender={handleRenderFilterDraft}
+                        onRevert={() => setFilterDraft(aiFilterConfig ? aiFilterConfig.stages : [])}
+                        isDirty={isFilterDraftDirty}
+                        isRendering={isProcessingFilter}
+                        isLivePreview={isLivePreview}
+                        onToggleLivePreview={handleToggleLivePreview}
+                        isDarkMode={isDarkMode}
+                     />
+                  </TrackRow>
+               )}
+
                {/* Track 3: Filtered Signal (Conditional) */}
                <AnimatePresence>
                  {(filteredAudioUrl || isProcessingFilter) && (
@@ -412,7 +1609,7 @@ export const CenterStage: React.FC<CenterStageProps> = ({
                     >
                         <TrackRow 
                             title="AI Cleaned" 
-                            subtitle={aiFilterConfig ? `${aiFilterConfig.type} @ ${aiFilterConfig.frequency}Hz` : 'Processing...'}
+                            subtitle={aiFilterConfig ? describeFilterChain(aiFilterConfig) : 'Processing...'}
                             icon={<Wand2 size={14} />} 
                             height="260px"
                             isDarkMode={isDarkMode}
@@ -450,8 +1647,10 @@ export const CenterStage: React.FC<CenterStageProps> = ({
                                         onSeek={handleSeek}
                                         isPlaying={isPlaying}
                                         volume={activeAudioSource === 'filtered' ? (isMuted ? 0 : volume) : 0}
+                                        playbackRate={playbackRate}
                                         onTimeUpdate={activeAudioSource === 'filtered' ? handleTimeUpdate : undefined}
                                         zoomLevel={zoomLevel}
+                                        scrollTime={viewStart}
                                         isDarkMode={isDarkMode}
                                     />
                                 )
@@ -480,8 +1679,18 @@ export const CenterStage: React.FC<CenterStageProps> = ({
              onSeek={handleSeek}
              onVolumeChange={setVolume}
              onToggleMute={() => setIsMuted(!isMuted)}
+             zoomLevel={zoomLevel}
              onZoomIn={handleZoomIn}
              onZoomOut={handleZoomOut}
+             onZoomToFit={handleZoomToFit}
+             onZoomToSelection={zoomSelection ? handleZoomToSelection : undefined}
+             loop={loop}
+             loopPointA={loopPointA}
+             onSetLoopPoint={handleSetLoopPoint}
+             onLoopCycle={breathCycles.length > 0 || (breathPhases && breathPhases.regions.length > 0) ? handleLoopCycle : undefined}
+             onClearLoop={handleClearLoop}
+             playbackRate={playbackRate}
+             onPlaybackRateChange={setPlaybackRate}
              isDarkMode={isDarkMode}
           />
       )}
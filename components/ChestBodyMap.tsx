@@ -0,0 +1,134 @@
+import React from 'react';
+import { ExaminationRecording, RecordingLocation } from '../types';
+import { SiteFindingSummary, SITE_FINDING_STYLES, SiteFinding } from '../utils/examination';
+
+interface ChestBodyMapProps {
+  recordings: ExaminationRecording[];
+  findings: Record<string, SiteFindingSummary | null>;  // Recording id -> finding
+  currentRecordingId: string | null;
+  onSelectRecording: (recording: ExaminationRecording) => void;
+  isLocked: boolean;  // Sites cannot be switched (the AI analysis of the current one is still streaming)
+  isDarkMode: boolean;
+}
+
+type TorsoView = 'anterior' | 'posterior';
+
+// Torso centers in the SVG viewBox (anterior left, posterior right)
+const VIEW_CENTER: Record<TorsoView, number> = { anterior: 60, posterior: 180 };
+
+// The seven ICBHI sites. Anterior view faces the viewer (patient's right on the viewer's left),
+// posterior view shows the back (patient's left on the viewer's left). Lateral sites sit on the anterior outline.
+const SITES: { location: string; code: string; view: TorsoView; dx: number; y: number }[] = [
+  { location: RecordingLocation.TRACHEA, code: 'Tc', view: 'anterior', dx: 0, y: 17 },
+  { location: RecordingLocation.ANTERIOR_RIGHT, code: 'Ar', view: 'anterior', dx: -18, y: 56 },
+  { location: RecordingLocation.ANTERIOR_LEFT, code: 'Al', view: 'anterior', dx: 18, y: 56 },
+  { location: RecordingLocation.LATERAL_RIGHT, code: 'Lr', view: 'anterior', dx: -35, y: 96 },
+  { location: RecordingLocation.LATERAL_LEFT, code: 'Ll', view: 'anterior', dx: 35, y: 96 },
+  { location: RecordingLocation.POSTERIOR_LEFT, code: 'Pl', view: 'posterior', dx: -18, y: 72 },
+  { location: RecordingLocation.POSTERIOR_RIGHT, code: 'Pr', view: 'posterior', dx: 18, y: 72 },
+];
+
+const SITE_RADIUS = 9;
+
+const torsoPath = (cx: number) =>
+  `M ${cx - 8} 6 L ${cx - 8} 24 Q ${cx - 40} 26 ${cx - 44} 42 L ${cx - 34} 140 L ${cx + 34} 140 L ${cx + 44} 42 Q ${cx + 40} 26 ${cx + 8} 24 L ${cx + 8} 6 Z`;
+
+// Worst finding wins when a site has several recordings
+const FINDING_SEVERITY: SiteFinding[] = ['normal', 'abnormal', 'crackle', 'wheeze', 'both'];
+
+export const ChestBodyMap: React.FC<ChestBodyMapProps> = ({
+  recordings,
+  findings,
+  currentRecordingId,
+  onSelectRecording,
+  isLocked,
+  isDarkMode
+}) => {
+  const outlineColor = isDarkMode ? '#334155' : '#cbd5e1';
+  const textColor = isDarkMode ? '#64748b' : '#94a3b8';
+  const unplaced = recordings.filter(r => !SITES.some(s => s.location === r.location));
+
+  // Clicking a site loads its first recording, or the next one when the current recording is already there
+  const handleSiteClick = (siteRecordings: ExaminationRecording[]) => {
+    if (isLocked) return;
+    const currentIndex = siteRecordings.findIndex(r => r.id === currentRecordingId);
+    onSelectRecording(siteRecordings[(currentIndex + 1) % siteRecordings.length]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox="0 0 240 160" className="w-full">
+        {(Object.keys(VIEW_CENTER) as TorsoView[]).map(view => (
+          <g key={view}>
+            <path d={torsoPath(VIEW_CENTER[view])} fill={isDarkMode ? 'rgba(30, 41, 59, 0.5)' : 'rgba(241, 245, 249, 1)'} stroke={outlineColor} strokeWidth={1.5} />
+            <text x={VIEW_CENTER[view]} y={155} textAnchor="middle" fontSize={8} fontWeight="bold" letterSpacing={1} fill={textColor}>
+              {view.toUpperCase()}
+            </text>
+            <text x={VIEW_CENTER[view] - 52} y={40} fontSize={7} fontWeight="bold" fill={textColor}>{view === 'anterior' ? 'R' : 'L'}</text>
+            <text x={VIEW_CENTER[view] + 47} y={40} fontSize={7} fontWeight="bold" fill={textColor}>{view === 'anterior' ? 'L' : 'R'}</text>
+          </g>
+        ))}
+
+        {SITES.map(site => {
+          const cx = VIEW_CENTER[site.view] + site.dx;
+          const siteRecordings = recordings.filter(r => r.location === site.location);
+          const siteFindings = siteRecordings.map(r => findings[r.id]).filter((f): f is SiteFindingSummary => !!f);
+          const worst = siteFindings.length > 0
+            ? siteFindings.reduce((a, b) => FINDING_SEVERITY.indexOf(b.finding) > FINDING_SEVERITY.indexOf(a.finding) ? b : a)
+            : null;
+          const isCurrent = siteRecordings.some(r => r.id === currentRecordingId);
+
+          if (siteRecordings.length === 0) {
+            return (
+              <g key={site.code}>
+                <title>{`${site.location}: not recorded`}</title>
+                <circle cx={cx} cy={site.y} r={SITE_RADIUS} fill="none" stroke={outlineColor} strokeWidth={1} strokeDasharray="2 2" />
+                <text x={cx} y={site.y + 3} textAnchor="middle" fontSize={7} fill={textColor}>{site.code}</text>
+              </g>
+            );
+          }
+
+          const fill = worst ? SITE_FINDING_STYLES[worst.finding].color : (isDarkMode ? '#475569' : '#94a3b8');
+          const tooltip = [
+            `${site.location} (${siteRecordings.length} recording${siteRecordings.length > 1 ? 's' : ''})`,
+            worst ? `${SITE_FINDING_STYLES[worst.finding].label} (from ${worst.source === 'labels' ? 'clinical labels' : 'AI analysis'})` : 'No labels or analysis yet',
+            ...siteRecordings.map(r => r.id),
+            ...(isLocked ? ['Wait for the AI analysis to finish to switch sites'] : [])
+          ].join('\n');
+
+          return (
+            <g key={site.code} onClick={() => handleSiteClick(siteRecordings)} className={isLocked ? 'cursor-not-allowed' : 'cursor-pointer'}>
+              <title>{tooltip}</title>
+              {isCurrent && (
+                <circle cx={cx} cy={site.y} r={SITE_RADIUS + 3} fill="none" stroke={isDarkMode ? '#22d3ee' : '#0d9488'} strokeWidth={2} />
+              )}
+              <circle cx={cx} cy={site.y} r={SITE_RADIUS} fill={fill} stroke={isDarkMode ? '#0f172a' : '#ffffff'} strokeWidth={1.5} />
+              <text x={cx} y={site.y + 3} textAnchor="middle" fontSize={7} fontWeight="bold" fill="#ffffff" className="pointer-events-none">{site.code}</text>
+              {siteRecordings.length > 1 && (
+                <text x={cx + SITE_RADIUS} y={site.y - SITE_RADIUS + 2} fontSize={7} fontWeight="bold" fill={textColor} className="pointer-events-none">
+                  {siteRecordings.length}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-x-3 gap-y-1 justify-center">
+        {(['normal', 'wheeze', 'crackle', 'both', 'abnormal'] as SiteFinding[]).map(finding => (
+          <div key={finding} className="flex items-center space-x-1">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: SITE_FINDING_STYLES[finding].color }} />
+            <span className="text-[9px] text-slate-500 uppercase">{SITE_FINDING_STYLES[finding].label}</span>
+          </div>
+        ))}
+      </div>
+
+      {unplaced.length > 0 && (
+        <p className="text-[10px] text-slate-500 font-mono text-center">
+          {unplaced.length} recording{unplaced.length > 1 ? 's' : ''} without a known site
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Eye, EyeOff } from 'lucide-react';
+import { AgreementReport, EvaluationScope, EVALUATION_SCOPES, formatMetric } from '../utils/evaluation';
+
+interface EvaluationPanelProps {
+  report: AgreementReport;
+  scope: EvaluationScope;
+  onScopeChange: (scope: EvaluationScope) => void;
+  overlapThreshold: number;
+  onOverlapThresholdChange: (threshold: number) => void;
+  showHighlights: boolean;
+  onToggleHighlights: () => void;
+  isDarkMode: boolean;
+}
+
+export const EvaluationPanel: React.FC<EvaluationPanelProps> = ({
+  report,
+  scope,
+  onScopeChange,
+  overlapThreshold,
+  onOverlapThresholdChange,
+  showHighlights,
+  onToggleHighlights,
+  isDarkMode
+}) => {
+  const headerClass = `px-2 py-1 text-left text-[9px] font-bold uppercase tracking-wider ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`;
+  const cellClass = `px-2 py-1 font-mono text-[10px] ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`;
+  const sectionTitleClass = 'text-[9px] font-bold uppercase tracking-wider text-slate-500';
+  const cycles = report.cycles;
+
+  return (
+    <div className="w-full h-full flex space-x-4 p-3 overflow-auto">
+      {/* Event-level agreement (click a row to choose which class is highlighted on the timeline) */}
+      <table className="flex-1 self-start border-collapse">
+        <thead>
+          <tr className={`border-b ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+            <th className={headerClass}>Class</th>
+            <th className={headerClass}>IoU</th>
+            <th className={headerClass}>TP / FP / FN</th>
+            <th className={headerClass}>Precision</th>
+            <th className={headerClass}>Recall</th>
+            <th className={headerClass}>F1</th>
+          </tr>
+        </thead>
+        <tbody>
+          {EVALUATION_SCOPES.map(s => {
+            const { iou, events } = report.scopes[s];
+            const isActive = s === scope;
+            return (
+              <tr
+                key={s}
+                onClick={() => onScopeChange(s)}
+                className={`cursor-pointer transition-colors ${isActive ? (isDarkMode ? 'bg-cyan-900/20' : 'bg-teal-50') : (isDarkMode ? 'hover:bg-slate-800/50' : 'hover:bg-slate-100')}`}
+              >
+                <td className={`${cellClass} font-sans font-bold uppercase tracking-wider text-[9px]`}>{s}</td>
+                <td className={cellClass}>{formatMetric(iou)}</td>
+                <td className={cellClass}>
+                  <span className="text-emerald-400">{events.tp}</span> / <span className="text-orange-400">{events.fp}</span> / <span className="text-red-400">{events.fn}</span>
+                </td>
+                <td className={cellClass}>{formatMetric(events.precision)}</td>
+                <td className={cellClass}>{formatMetric(events.recall)}</td>
+                <td className={cellClass}>{formatMetric(events.f1)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {/* Cycle-level ICBHI score and settings */}
+      <div className={`w-56 flex-shrink-0 space-y-3 border-l pl-4 ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+        <div>
+          <div className={sectionTitleClass}>ICBHI Cycle Score</div>
+          {cycles ? (
+            <div className="grid grid-cols-3 gap-1 mt-1">
+              {[
+                { label: 'Se', value: cycles.sensitivity },
+                { label: 'Sp', value: cycles.specificity },
+                { label: 'Score', value: cycles.score }
+              ].map(({ label, value }) => (
+                <div key={label} className={`rounded px-1.5 py-1 ${isDarkMode ? 'bg-slate-900' : 'bg-slate-100'}`}>
+                  <div className="text-[9px] text-slate-500 uppercase">{label}</div>
+                  <div className={`font-mono text-[11px] ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>{formatMetric(value)}</div>
+                </div>
+              ))}
+              <div className="col-span-3 text-[9px] text-slate-500 font-mono">
+                {cycles.cycles} cycles, {cycles.abnormalCycles} abnormal
+              </div>
+            </div>
+          ) : (
+            <div className="text-[10px] text-slate-500 mt-1">Load cycle labels (ICBHI .txt) to score cycles.</div>
+          )}
+        </div>
+
+        <label className="block space-y-1">
+          <div className={`flex justify-between ${sectionTitleClass}`}>
+            <span>Min Overlap</span>
+            <span className="font-mono">{Math.round(overlapThreshold * 100)}%</span>
+          </div>
+          <input
+            type="range" min="0" max="1" step="0.05"
+            value={overlapThreshold}
+            onChange={(e) => onOverlapThresholdChange(parseFloat(e.target.value))}
+            className={`w-full ${isDarkMode ? 'accent-cyan-500' : 'accent-teal-600'}`}
+            title="Fraction of the shorter event that must overlap for a match"
+          />
+        </label>
+
+        <button
+          onClick={onToggleHighlights}
+          className={`w-full px-2 py-1 text-[10px] flex items-center justify-center rounded border transition-colors ${
+            showHighlights
+              ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+              : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+          }`}
+        >
+          {showHighlights ? <Eye size={12} className="mr-1.5" /> : <EyeOff size={12} className="mr-1.5" />}
+          Highlight {scope} on Timeline
+        </button>
+      </div>
+    </div>
+  );
+};
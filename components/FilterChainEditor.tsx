@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Trash2, Plus, Power, Play, RotateCcw, Loader2, Headphones } from 'lucide-react';
+import { FilterStage, FilterStageType } from '../types';
+import { FILTER_STAGE_TYPES, createFilterStage } from '../utils/filterChain';
+
+interface FilterChainEditorProps {
+  stages: FilterStage[];
+  onChange: (stages: FilterStage[]) => void;
+  onRender: () => void;
+  onRevert: () => void;
+  isDirty: boolean;          // Draft differs from the rendered chain
+  isRendering: boolean;
+  isLivePreview: boolean;    // Raw track is heard through the draft in real time
+  onToggleLivePreview: () => void;
+  isDarkMode: boolean;
+}
+
+// Frequency sliders are logarithmic over 20 Hz - 10 kHz
+const SLIDER_STEPS = 1000;
+const MIN_SLIDER_HZ = 20;
+const MAX_SLIDER_HZ = 10000;
+const frequencyToSlider = (hz: number) =>
+  Math.round(SLIDER_STEPS * Math.log(Math.min(Math.max(hz, MIN_SLIDER_HZ), MAX_SLIDER_HZ) / MIN_SLIDER_HZ) / Math.log(MAX_SLIDER_HZ / MIN_SLIDER_HZ));
+const sliderToFrequency = (position: number) =>
+  Math.round(MIN_SLIDER_HZ * Math.pow(MAX_SLIDER_HZ / MIN_SLIDER_HZ, position / SLIDER_STEPS));
+
+export const FilterChainEditor: React.FC<FilterChainEditorProps> = ({
+  stages,
+  onChange,
+  onRender,
+  onRevert,
+  isDirty,
+  isRendering,
+  isLivePreview,
+  onToggleLivePreview,
+  isDarkMode
+}) => {
+  const [newStageType, setNewStageType] = useState<FilterStageType>('highpass');
+
+  const updateStage = (id: string, changes: Partial<FilterStage>) =>
+    onChange(stages.map(s => s.id === id ? { ...s, ...changes } : s));
+
+  const moveStage = (index: number, direction: 1 | -1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stages.length) return;
+    const next = [...stages];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleNumber = (id: string, key: 'frequency' | 'Q' | 'gain') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!isNaN(value)) updateStage(id, { [key]: value });
+  };
+
+  const inputClass = `w-16 px-1.5 py-0.5 text-[10px] rounded border font-mono disabled:opacity-30 ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200' : 'bg-white border-slate-300 text-slate-800'}`;
+  const iconButtonClass = `p-1 rounded transition-colors disabled:opacity-30 ${isDarkMode ? 'text-slate-500 hover:text-slate-200' : 'text-slate-400 hover:text-slate-700'}`;
+  const buttonClass = `px-2 py-1 text-[10px] flex items-center rounded border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+    isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800'
+  }`;
+
+  return (
+    <div className="w-full h-full flex flex-col p-3 space-y-2">
+      <div className="flex-1 overflow-y-auto space-y-1">
+        {stages.length === 0 && (
+          <div className="h-full flex items-center justify-center text-[10px] text-slate-500 font-mono uppercase">
+            No stages. Add one below or run Deep Analysis for a recommendation.
+          </div>
+        )}
+        {stages.map((stage, index) => {
+          const info = FILTER_STAGE_TYPES[stage.type];
+          return (
+            <div
+              key={stage.id}
+              className={`flex items-center space-x-2 px-2 py-1 rounded border transition-opacity ${stage.bypass ? 'opacity-40' : ''} ${isDarkMode ? 'border-slate-800 bg-slate-900/60' : 'border-slate-200 bg-white'}`}
+            >
+              <span className="text-[10px] font-mono text-slate-500 w-4">{index + 1}</span>
+              <select
+                value={stage.type}
+                onChange={(e) => updateStage(stage.id, { type: e.target.value as FilterStageType })}
+                className={`${inputClass} w-24`}
+              >
+                {(Object.keys(FILTER_STAGE_TYPES) as FilterStageType[]).map(type => (
+                  <option key={type} value={type}>{FILTER_STAGE_TYPES[type].label}</option>
+                ))}
+              </select>
+              <label className="flex items-center space-x-1 text-[9px] text-slate-500 uppercase">
+                <span>Hz</span>
+                <input
+                  type="range" min={0} max={SLIDER_STEPS}
+                  value={frequencyToSlider(stage.frequency)}
+                  disabled={!info.usesFrequency}
+                  onChange={(e) => updateStage(stage.id, { frequency: sliderToFrequency(Number(e.target.value)) })}
+                  className={`w-24 disabled:opacity-30 ${isDarkMode ? 'accent-cyan-500' : 'accent-teal-600'}`}
+                />
+                <input type="number" min={1} step={1} value={stage.frequency} disabled={!info.usesFrequency} onChange={handleNumber(stage.id, 'frequency')} className={inputClass} />
+              </label>
+              <label className="flex items-center space-x-1 text-[9px] text-slate-500 uppercase">
+                <span>Q</span>
+                <input type="number" min={0.0001} step={0.1} value={stage.Q} disabled={!info.usesQ} onChange={handleNumber(stage.id, 'Q')} className={inputClass} />
+              </label>
+              <label className="flex items-center space-x-1 text-[9px] text-slate-500 uppercase">
+                <span>dB</span>
+                <input
+                  type="range" min={-40} max={20} step={0.5}
+                  value={stage.gain}
+                  disabled={!info.usesGain}
+                  onChange={(e) => updateStage(stage.id, { gain: Number(e.target.value) })}
+                  className={`w-16 disabled:opacity-30 ${isDarkMode ? 'accent-cyan-500' : 'accent-teal-600'}`}
+                />
+                <input type="number" step={0.5} value={stage.gain} disabled={!info.usesGain} onChange={handleNumber(stage.id, 'gain')} className={inputClass} />
+              </label>
+
+              <div className="flex-1" />
+
+              <button
+                onClick={() => updateStage(stage.id, { bypass: !stage.bypass })}
+                title={stage.bypass ? 'Enable Stage' : 'Bypass Stage'}
+                className={`p-1 rounded transition-colors ${stage.bypass ? 'text-slate-500' : 'text-emerald-500'}`}
+              >
+                <Power size={12} />
+              </button>
+              <button onClick={() => moveStage(index, -1)} disabled={index === 0} title="Move Up" className={iconButtonClass}>
+                <ArrowUp size={12} />
+              </button>
+              <button onClick={() => moveStage(index, 1)} disabled={index === stages.length - 1} title="Move Down" className={iconButtonClass}>
+                <ArrowDown size={12} />
+              </button>
+              <button onClick={() => onChange(stages.filter(s => s.id !== stage.id))} title="Remove Stage" className="p-1 rounded text-slate-500 hover:text-red-400 transition-colors">
+                <Trash2 size={12} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Footer: add / revert / render */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-1">
+          <select
+            value={newStageType}
+            onChange={(e) => setNewStageType(e.target.value as FilterStageType)}
+            className={`${inputClass} w-24`}
+          >
+            {(Object.keys(FILTER_STAGE_TYPES) as FilterStageType[]).map(type => (
+              <option key={type} value={type}>{FILTER_STAGE_TYPES[type].label}</option>
+            ))}
+          </select>
+          <button onClick={() => onChange([...stages, createFilterStage(newStageType)])} className={buttonClass}>
+            <Plus size={12} className="mr-1" /> Add Stage
+          </button>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onToggleLivePreview}
+            title="Hear the raw track through this chain while editing (no render needed)"
+            className={`px-2 py-1 text-[10px] flex items-center rounded border transition-colors ${
+                isLivePreview
+                ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+                : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+            }`}
+          >
+            <Headphones size={12} className="mr-1" /> Live Preview
+          </button>
+          <button onClick={onRevert} disabled={!isDirty || isRendering} title="Discard edits since the last render" className={buttonClass}>
+            <RotateCcw size={12} className="mr-1" /> Revert
+          </button>
+          <button
+            onClick={onRender}
+            disabled={!isDirty || isRendering}
+            className="px-2 py-1 text-[10px] flex items-center rounded border transition-colors disabled:opacity-40 disabled:cursor-not-allowed bg-emerald-600 text-white border-emerald-500 hover:bg-emerald-500"
+          >
+            {isRendering ? <Loader2 size={12} className="mr-1 animate-spin" /> : <Play size={12} className="mr-1" />}
+            Render
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
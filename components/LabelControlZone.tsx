@@ -1,53 +1,25 @@
 import React, { useState, useRef, DragEvent } from 'react';
 import { FileText, Upload, Check, X, AlertCircle } from 'lucide-react';
 import { RegionData } from '../types';
+import {
+  detectLabelImporter,
+  formatParseIssue,
+  parseCSV,
+  readCsvColumns,
+  CsvColumnMapping,
+  LabelParseIssue,
+  LabelParseResult,
+  LABEL_IMPORT_ACCEPT
+} from '../utils/labelFormats';
 
 interface LabelControlZoneProps {
-  onRegionsLoaded: (regions: RegionData[], fileName: string) => void;
+  // `issues` lists lines that were skipped while importing, for the caller to surface
+  onRegionsLoaded: (regions: RegionData[], fileName: string, issues: LabelParseIssue[]) => void;
   onClear: () => void;
   hasLabels: boolean;
   currentLabelFile: string | null;
 }
 
-// Reusable parser for external use (e.g., Demo loader)
-export const parseLabelString = (text: string): RegionData[] => {
-    const lines = text.split('\n');
-    const newRegions: RegionData[] = [];
-
-    lines.forEach((line, idx) => {
-        if (!line.trim()) return;
-        // Support tab or space delimited
-        const parts = line.split(/[\t\s]+/).map(s => s.trim());
-        
-        // ICBHI Format: Start | End | Crackles | Wheezes
-        // Example: 0.05  0.8  0  1
-        if (parts.length < 4) return;
-
-        const start = parseFloat(parts[0]);
-        const end = parseFloat(parts[1]);
-        const crackles = parseInt(parts[2]);
-        const wheezes = parseInt(parts[3]);
-
-        if (isNaN(start) || isNaN(end)) return;
-
-        const idBase = `clinical-${idx}-${start}-${end}`;
-
-        if (wheezes === 1) {
-            newRegions.push({
-                id: `${idBase}-wheeze`,
-                start, end, content: 'Wheeze', color: 'rgba(239, 68, 68, 0.3)'
-            });
-        }
-        if (crackles === 1) {
-            newRegions.push({
-                id: `${idBase}-crackle`,
-                start, end, content: 'Crackle', color: 'rgba(234, 179, 8, 0.3)'
-            });
-        }
-    });
-    return newRegions;
-};
-
 export const LabelControlZone: React.FC<LabelControlZoneProps> = ({ 
   onRegionsLoaded, 
   onClear, 
@@ -58,6 +30,9 @@ export const LabelControlZone: React.FC<LabelControlZoneProps> = ({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [error, setError] = useState<string | null>(null);
 
+  // CSV column-mapping step (shown before a CSV file is parsed)
+  const [pendingCsv, setPendingCsv] = useState<{ fileName: string; text: string; columns: string[]; mapping: CsvColumnMapping } | null>(null);
+
   const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(true);
@@ -83,33 +58,53 @@ export const LabelControlZone: React.FC<LabelControlZoneProps> = ({
     }
   };
 
-  const processFile = (file: File) => {
-    if (!file.name.endsWith('.txt')) {
-      setError('Invalid format. Please upload a .txt file.');
+  const handleParseResult = (result: LabelParseResult, fileName: string) => {
+    if (result.regions.length === 0) {
+      // Nothing usable: surface the first problem so the user knows what to fix
+      setError(result.issues.length > 0
+        ? `No valid regions. ${formatParseIssue(result.issues[0])}`
+        : 'No valid regions found in file.');
       return;
     }
+    onRegionsLoaded(result.regions, fileName, result.issues);
+  };
+
+  const processFile = (file: File) => {
+    setPendingCsv(null);
 
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = event.target?.result as string;
       if (!text) return;
 
-      try {
-        const newRegions = parseLabelString(text);
+      const importer = detectLabelImporter(file.name, text);
+      if (!importer) {
+        setError(`Unsupported label format. Use ${LABEL_IMPORT_ACCEPT}`);
+        return;
+      }
+
+      if (importer.requiresMapping) {
+        const { columns, guess } = readCsvColumns(text);
+        setPendingCsv({ fileName: file.name, text, columns, mapping: guess });
+        return;
+      }
 
-        if (newRegions.length === 0) {
-            setError('No valid regions found in file.');
-        } else {
-            onRegionsLoaded(newRegions, file.name);
-        }
+      try {
+        handleParseResult(importer.parse(text), file.name);
       } catch (err) {
-        setError('Error parsing file.');
+        setError(`Error parsing ${importer.label} file.`);
         console.error(err);
       }
     };
     reader.readAsText(file);
   };
 
+  const handleConfirmCsvMapping = () => {
+    if (!pendingCsv) return;
+    handleParseResult(parseCSV(pendingCsv.text, pendingCsv.mapping), pendingCsv.fileName);
+    setPendingCsv(null);
+  };
+
   if (hasLabels) {
     return (
       <div className="flex items-center justify-between p-3 bg-slate-900 border border-slate-700 rounded-lg my-2 group">
@@ -133,6 +128,44 @@ export const LabelControlZone: React.FC<LabelControlZoneProps> = ({
     );
   }
 
+  if (pendingCsv) {
+    return (
+      <div className="p-3 bg-slate-900 border border-slate-700 rounded-lg my-2 space-y-2" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 min-w-0">
+            <FileText size={14} className="text-slate-500 flex-shrink-0" />
+            <span className="text-[10px] text-slate-300 font-mono truncate">{pendingCsv.fileName}</span>
+          </div>
+          <button onClick={() => setPendingCsv(null)} className="p-1 text-slate-500 hover:text-red-400" title="Cancel Import">
+            <X size={12} />
+          </button>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {(['start', 'end', 'label'] as const).map(field => (
+            <label key={field} className="space-y-0.5">
+              <span className="text-[9px] font-bold uppercase text-slate-500">{field}</span>
+              <select
+                value={pendingCsv.mapping[field]}
+                onChange={(e) => setPendingCsv({ ...pendingCsv, mapping: { ...pendingCsv.mapping, [field]: Number(e.target.value) } })}
+                className="w-full bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200 font-mono"
+              >
+                {pendingCsv.columns.map((col, idx) => (
+                  <option key={idx} value={idx}>{col}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={handleConfirmCsvMapping}
+          className="w-full py-1 text-[10px] font-medium uppercase tracking-wide rounded bg-cyan-600 hover:bg-cyan-500 text-white transition-colors"
+        >
+          Import Columns
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div 
       className={`relative flex items-center justify-center p-4 border border-dashed rounded-lg my-2 transition-all cursor-pointer group ${
@@ -149,14 +182,14 @@ export const LabelControlZone: React.FC<LabelControlZoneProps> = ({
         type="file" 
         ref={fileInputRef} 
         className="hidden" 
-        accept=".txt" 
+        accept={LABEL_IMPORT_ACCEPT} 
         onChange={handleFileInput} 
       />
       
       <div className="flex flex-col items-center space-y-1">
         <div className="flex items-center space-x-2 text-slate-400 group-hover:text-cyan-400 transition-colors">
           <Upload size={16} />
-          <span className="text-xs font-medium uppercase tracking-wide">Drag Clinical Labels (.txt) here</span>
+          <span className="text-xs font-medium uppercase tracking-wide">Drag Clinical Labels here</span>
         </div>
         {error ? (
            <div className="flex items-center space-x-1 text-[10px] text-red-400">
@@ -164,7 +197,7 @@ export const LabelControlZone: React.FC<LabelControlZoneProps> = ({
              <span>{error}</span>
            </div>
         ) : (
-           <span className="text-[10px] text-slate-600">Supports ICBHI Tab-Delimited Format</span>
+           <span className="text-[10px] text-slate-600">ICBHI, Audacity, Praat TextGrid, CSV, JSON</span>
         )}
       </div>
     </div>
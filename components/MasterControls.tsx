@@ -1,5 +1,6 @@
 import React from 'react';
-import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, ZoomIn, ZoomOut } from 'lucide-react';
+import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, ZoomIn, ZoomOut, Repeat, X } from 'lucide-react';
+import { PlaybackLoop } from '../types';
 
 interface MasterControlsProps {
   isPlaying: boolean;
@@ -11,11 +12,24 @@ interface MasterControlsProps {
   onSeek: (time: number) => void;
   onVolumeChange: (vol: number) => void;
   onToggleMute: () => void;
+  zoomLevel: number;          // Pixels per second
   onZoomIn: () => void;
   onZoomOut: () => void;
+  onZoomToFit: () => void;
+  onZoomToSelection?: () => void; // Only provided when there is a loop or a selected region
+  // Looping: A-B points are set at the playhead (A first, then B); "cycle" loops the breath cycle under it
+  loop: PlaybackLoop | null;
+  loopPointA: number | null;
+  onSetLoopPoint: () => void;
+  onLoopCycle?: () => void;   // Only provided when breath cycles or phases are available
+  onClearLoop: () => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
   isDarkMode: boolean;
 }
 
+export const PLAYBACK_RATES = [1, 0.5, 0.25];
+
 export const MasterControls: React.FC<MasterControlsProps> = ({
   isPlaying,
   currentTime,
@@ -26,8 +40,18 @@ export const MasterControls: React.FC<MasterControlsProps> = ({
   onSeek,
   onVolumeChange,
   onToggleMute,
+  zoomLevel,
   onZoomIn,
   onZoomOut,
+  onZoomToFit,
+  onZoomToSelection,
+  loop,
+  loopPointA,
+  onSetLoopPoint,
+  onLoopCycle,
+  onClearLoop,
+  playbackRate,
+  onPlaybackRateChange,
   isDarkMode
 }) => {
   
@@ -40,6 +64,13 @@ export const MasterControls: React.FC<MasterControlsProps> = ({
   };
 
   const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+  const toPercent = (time: number) => duration > 0 ? (time / duration) * 100 : 0;
+
+  const toggleClass = (isActive: boolean) => `px-1.5 py-0.5 text-[10px] font-mono rounded border transition-colors ${
+    isActive
+      ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+      : (isDarkMode ? 'bg-slate-900 text-slate-400 border-slate-800 hover:text-slate-200' : 'bg-slate-50 text-slate-500 border-slate-200 hover:text-slate-800')
+  }`;
 
   const handleSeekChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const percent = Number(e.target.value);
@@ -103,6 +134,16 @@ export const MasterControls: React.FC<MasterControlsProps> = ({
                   className={`absolute inset-y-0 left-0 transition-colors rounded-full pointer-events-none ${isDarkMode ? 'bg-cyan-600/50 group-hover:bg-cyan-500' : 'bg-teal-500/50 group-hover:bg-teal-500'}`}
                   style={{ width: `${progress}%` }}
                 ></div>
+                {/* Loop span (or the pending A point) */}
+                {loop && (
+                  <div
+                    className="absolute -inset-y-1 rounded-sm pointer-events-none border-x-2 border-amber-400 bg-amber-400/20"
+                    style={{ left: `${toPercent(loop.start)}%`, width: `${toPercent(loop.end - loop.start)}%` }}
+                  ></div>
+                )}
+                {!loop && loopPointA !== null && (
+                  <div className="absolute -inset-y-1 w-0.5 bg-amber-400 pointer-events-none" style={{ left: `${toPercent(loopPointA)}%` }}></div>
+                )}
                 {/* Scrubber handle */}
                 <div 
                   className={`absolute top-1/2 -translate-y-1/2 w-3 h-3 bg-white rounded-full shadow opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-10 ${isDarkMode ? 'shadow-cyan-900/50' : 'shadow-teal-900/20'}`}
@@ -115,6 +156,49 @@ export const MasterControls: React.FC<MasterControlsProps> = ({
 
         {/* Right: Tools */}
         <div className="flex items-center space-x-6">
+             {/* Loop */}
+             <div className="flex items-center space-x-1">
+                 <Repeat size={14} className={loop ? 'text-amber-400' : 'text-slate-500'} />
+                 <button
+                    onClick={onSetLoopPoint}
+                    title={loopPointA === null ? 'Set Loop Start (A) at the Playhead' : 'Set Loop End (B) at the Playhead'}
+                    className={toggleClass(loopPointA !== null || loop?.label === 'A-B')}
+                 >
+                     {loopPointA === null ? 'A' : 'B'}
+                 </button>
+                 {onLoopCycle && (
+                     <button onClick={onLoopCycle} title="Loop the Breath Cycle at the Playhead" className={toggleClass(!!loop?.label.startsWith('Cycle'))}>
+                         Cycle
+                     </button>
+                 )}
+                 {loop && (
+                     <>
+                         <span className="text-[10px] text-amber-400 font-mono max-w-[7rem] truncate" title={`${loop.label}: ${loop.start.toFixed(2)}s - ${loop.end.toFixed(2)}s`}>
+                             {loop.label}
+                         </span>
+                         <button onClick={onClearLoop} title="Stop Looping" className="p-0.5 text-slate-500 hover:text-red-400">
+                             <X size={12} />
+                         </button>
+                     </>
+                 )}
+             </div>
+
+             {/* Speed (pitch preserved) */}
+             <div className="flex items-center space-x-1" title="Playback Speed (pitch preserved)">
+                 {PLAYBACK_RATES.map(rate => (
+                     <button key={rate} onClick={() => onPlaybackRateChange(rate)} className={toggleClass(playbackRate === rate)}>
+                         {rate}×
+                     </button>
+                 ))}
+                 {/* Faster speeds come from the J / L shuttle keys */}
+                 {!PLAYBACK_RATES.includes(playbackRate) && (
+                     <span className={toggleClass(true)}>{playbackRate}×</span>
+                 )}
+             </div>
+
+             {/* Divider */}
+             <div className={`h-6 w-px ${isDarkMode ? 'bg-slate-800' : 'bg-slate-200'}`}></div>
+
              {/* Volume */}
              <div className="flex items-center space-x-2 group">
                  <button onClick={onToggleMute} className="text-slate-500 hover:text-slate-300">
@@ -146,7 +230,9 @@ export const MasterControls: React.FC<MasterControlsProps> = ({
                  >
                      <ZoomOut size={18} />
                  </button>
-                 <span className="text-[10px] text-slate-600 font-mono uppercase">Zoom</span>
+                 <span className="w-16 text-center text-[10px] text-slate-600 font-mono" title="Zoom (pixels per second)">
+                     {zoomLevel >= 1000 ? `${(zoomLevel / 1000).toFixed(1)}k` : Math.round(zoomLevel)} px/s
+                 </span>
                  <button 
                     onClick={onZoomIn} 
                     title="Zoom In (Time Axis)"
@@ -154,6 +240,14 @@ export const MasterControls: React.FC<MasterControlsProps> = ({
                  >
                      <ZoomIn size={18} />
                  </button>
+                 <button onClick={onZoomToFit} title="Zoom to Fit (whole recording)" className={toggleClass(false)}>
+                     Fit
+                 </button>
+                 {onZoomToSelection && (
+                     <button onClick={onZoomToSelection} title="Zoom to the loop / selected region" className={toggleClass(false)}>
+                         Sel
+                     </button>
+                 )}
              </div>
         </div>
     </div>
@@ -0,0 +1,196 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { RegionData } from '../types';
+import { decodeAudioUrl, getChannels } from '../utils/audioDecode';
+import { visibleWindow } from '../utils/viewport';
+
+interface OverviewMinimapProps {
+  audioUrl: string;
+  duration: number;
+  currentTime: number;
+  zoomLevel: number;                 // Pixels per second of the tracks (same width as this strip)
+  viewStart: number | null;          // Left edge of the tracks' view; null while they follow the playhead
+  regions: RegionData[];             // Every region on the timeline, drawn as markers
+  onViewChange: (start: number, zoomLevel: number) => void;
+  onSeek: (time: number) => void;
+  onWidthChange?: (width: number) => void; // This strip is as wide as every track's viewport
+  isDarkMode: boolean;
+}
+
+type ViewportDragMode = 'move' | 'resize-start' | 'resize-end';
+
+const PEAK_BUCKETS = 1200;
+const HANDLE_PX = 6;
+
+// Max absolute sample per bucket across channels, normalized to the loudest bucket
+const computePeaks = (channels: Float32Array[], buckets: number) => {
+  const length = channels[0]?.length || 0;
+  const peaks = new Float32Array(Math.min(buckets, length));
+  const size = length / (peaks.length || 1);
+  channels.forEach(channel => {
+    for (let b = 0; b < peaks.length; b++) {
+      const end = Math.min(length, Math.floor((b + 1) * size));
+      for (let i = Math.floor(b * size); i < end; i++) peaks[b] = Math.max(peaks[b], Math.abs(channel[i]));
+    }
+  });
+  const max = peaks.reduce((m, p) => Math.max(m, p), 0) || 1;
+  return peaks.map(p => p / max);
+};
+
+export const OverviewMinimap: React.FC<OverviewMinimapProps> = ({
+  audioUrl,
+  duration,
+  currentTime,
+  zoomLevel,
+  viewStart,
+  regions,
+  onViewChange,
+  onSeek,
+  onWidthChange,
+  isDarkMode
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [height, setHeight] = useState(0);
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const drag = useRef<{ mode: ViewportDragMode; anchorTime: number; start: number; end: number } | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) {
+        setWidth(entry.contentRect.width);
+        setHeight(entry.contentRect.height);
+      }
+    });
+    observer.observe(containerRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    onWidthChange?.(width);
+  }, [width]);
+
+  // Peaks from the shared decode (already cached by the raw track)
+  useEffect(() => {
+    let isCancelled = false;
+    setPeaks(null);
+    decodeAudioUrl(audioUrl)
+      .then(buffer => { if (!isCancelled) setPeaks(computePeaks(getChannels(buffer), PEAK_BUCKETS)); })
+      .catch(error => { if (!isCancelled) console.error(error); });
+    return () => { isCancelled = true; };
+  }, [audioUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || width === 0 || height === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillStyle = isDarkMode ? '#0e7490' : '#5eead4';
+    const mid = height / 2;
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((x / width) * peaks.length);
+      const to = Math.max(from + 1, Math.floor(((x + 1) / width) * peaks.length));
+      let peak = 0;
+      for (let b = from; b < to && b < peaks.length; b++) peak = Math.max(peak, peaks[b]);
+      const h = Math.max(1, peak * (mid - 2));
+      ctx.fillRect(x, mid - h, 1, h * 2);
+    }
+  }, [peaks, width, height, isDarkMode]);
+
+  // The tracks' visible window
+  const { start: windowStart, end: windowEnd } = visibleWindow(duration, currentTime, zoomLevel, width, viewStart);
+  const visibleDuration = windowEnd - windowStart;
+  const toPx = (time: number) => duration > 0 ? (time / duration) * width : 0;
+
+  const pointerToTime = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    const x = clientX - (rect?.left || 0);
+    return Math.min(Math.max(0, width > 0 ? (x / width) * duration : 0), duration);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0 || duration <= 0) return;
+    const t = pointerToTime(e.clientX);
+    const x = toPx(t);
+    const left = toPx(windowStart);
+    const right = toPx(windowEnd);
+    const mode: ViewportDragMode | null =
+      Math.abs(x - left) <= HANDLE_PX ? 'resize-start'
+      : Math.abs(x - right) <= HANDLE_PX ? 'resize-end'
+      : x > left && x < right ? 'move'
+      : null;
+    // Outside the viewport: jump the playhead there (the tracks follow it)
+    if (!mode) {
+      onSeek(t);
+      return;
+    }
+    drag.current = { mode, anchorTime: t, start: windowStart, end: windowEnd };
+    containerRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d || width === 0) return;
+    const t = pointerToTime(e.clientX);
+    const minDuration = Math.min(duration, 0.05);
+    if (d.mode === 'move') {
+      const length = d.end - d.start;
+      onViewChange(Math.min(Math.max(0, d.start + t - d.anchorTime), Math.max(0, duration - length)), zoomLevel);
+    } else {
+      const start = d.mode === 'resize-start' ? Math.min(t, d.end - minDuration) : d.start;
+      const end = d.mode === 'resize-end' ? Math.max(t, d.start + minDuration) : d.end;
+      onViewChange(start, width / (end - start));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    drag.current = null;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      data-overview
+      className={`w-full h-full relative select-none cursor-pointer ${isDarkMode ? 'bg-slate-950/50' : 'bg-slate-50/50'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+
+      {/* Region markers */}
+      <div className="absolute inset-x-0 bottom-0 h-2 pointer-events-none">
+        {regions.map(region => (
+          <div
+            key={region.id}
+            className="absolute inset-y-0 opacity-90"
+            style={{ left: toPx(region.start), width: Math.max(1, toPx(region.end - region.start)), backgroundColor: region.color }}
+          />
+        ))}
+      </div>
+
+      {/* Playhead */}
+      <div className={`absolute inset-y-0 w-px pointer-events-none ${isDarkMode ? 'bg-white' : 'bg-slate-900'}`} style={{ left: toPx(currentTime) }} />
+
+      {/* Viewport (drag to scroll, drag the edges to zoom) */}
+      {duration > 0 && (
+        <div
+          className={`absolute inset-y-0 border rounded-sm cursor-grab active:cursor-grabbing ${viewStart === null ? (isDarkMode ? 'border-cyan-500/60 bg-cyan-500/10' : 'border-teal-500/60 bg-teal-500/10') : 'border-amber-400/80 bg-amber-400/10'}`}
+          style={{ left: toPx(windowStart), width: Math.max(HANDLE_PX, toPx(visibleDuration)) }}
+        >
+          <div className="absolute inset-y-0 -left-1 w-2 cursor-ew-resize" />
+          <div className="absolute inset-y-0 -right-1 w-2 cursor-ew-resize" />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import {
+  NavigatorRow, NavigatorClassFilter, NavigatorSortKey, NAVIGATOR_CLASS_FILTERS,
+  matchesClassFilter, sortNavigatorRows
+} from '../utils/regionNavigator';
+
+interface RegionNavigatorProps {
+  rows: NavigatorRow[];
+  sources: { id: string; label: string }[];
+  selectedRegionId: string | null;
+  onSelect: (row: NavigatorRow) => void;
+  isDarkMode: boolean;
+}
+
+const COLUMNS: { key: NavigatorSortKey; label: string }[] = [
+  { key: 'type', label: 'Type' },
+  { key: 'start', label: 'Start' },
+  { key: 'end', label: 'End' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'source', label: 'Source' },
+];
+
+export const RegionNavigator: React.FC<RegionNavigatorProps> = ({ rows, sources, selectedRegionId, onSelect, isDarkMode }) => {
+  const [classFilter, setClassFilter] = useState<NavigatorClassFilter>('All');
+  const [sourceFilter, setSourceFilter] = useState<string>('all');
+  const [uncoveredOnly, setUncoveredOnly] = useState(false);
+  const [sortKey, setSortKey] = useState<NavigatorSortKey>('start');
+  const [ascending, setAscending] = useState(true);
+
+  const visibleRows = sortNavigatorRows(
+    rows.filter(row =>
+      matchesClassFilter(row, classFilter) &&
+      (sourceFilter === 'all' || row.sourceId === sourceFilter) &&
+      (!uncoveredOnly || row.isCovered === false)
+    ),
+    sortKey,
+    ascending
+  );
+
+  const handleSort = (key: NavigatorSortKey) => {
+    if (key === sortKey) setAscending(!ascending);
+    else {
+      setSortKey(key);
+      setAscending(true);
+    }
+  };
+
+  const headerClass = `px-2 py-1 text-left text-[9px] font-bold uppercase tracking-wider cursor-pointer select-none ${isDarkMode ? 'text-slate-500 hover:text-slate-300' : 'text-slate-400 hover:text-slate-700'}`;
+  const cellClass = `px-2 py-1 font-mono text-[10px] ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`;
+  const optionClass = (isActive: boolean) => `px-1.5 py-0.5 text-[10px] rounded border transition-colors ${
+    isActive
+      ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+      : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+  }`;
+
+  return (
+    <div className="w-full h-full flex flex-col">
+      {/* Filters */}
+      <div className={`flex items-center flex-wrap gap-1 px-3 py-2 border-b ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+        {NAVIGATOR_CLASS_FILTERS.map(filter => (
+          <button key={filter} onClick={() => setClassFilter(filter)} className={optionClass(classFilter === filter)}>{filter}</button>
+        ))}
+        <select
+          value={sourceFilter}
+          onChange={(e) => setSourceFilter(e.target.value)}
+          className={`ml-2 px-1.5 py-0.5 text-[10px] rounded border ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-300' : 'bg-white border-slate-300 text-slate-700'}`}
+        >
+          <option value="all">All Sources</option>
+          {sources.map(source => <option key={source.id} value={source.id}>{source.label}</option>)}
+        </select>
+        <button
+          onClick={() => setUncoveredOnly(!uncoveredOnly)}
+          title="Gemini / detector wheezes and crackles with no matching clinical label"
+          className={optionClass(uncoveredOnly)}
+        >
+          Not in Clinical Labels
+        </button>
+        <span className="ml-auto text-[10px] text-slate-500 font-mono">{visibleRows.length} / {rows.length}</span>
+      </div>
+
+      {/* Table (click a row to seek to it and select it on the timeline) */}
+      <div className="flex-1 overflow-auto">
+        <table className="w-full border-collapse">
+          <thead className={`sticky top-0 ${isDarkMode ? 'bg-slate-950' : 'bg-slate-50'}`}>
+            <tr className={`border-b ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+              {COLUMNS.map(column => (
+                <th key={column.key} onClick={() => handleSort(column.key)} className={headerClass}>
+                  <span className="inline-flex items-center">
+                    {column.label}
+                    {sortKey === column.key && (ascending ? <ArrowUp size={10} className="ml-0.5" /> : <ArrowDown size={10} className="ml-0.5" />)}
+                  </span>
+                </th>
+              ))}
+              <th className={`${headerClass} cursor-default`}>Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.map(row => (
+              <tr
+                key={`${row.sourceId}-${row.region.id}`}
+                onClick={() => onSelect(row)}
+                className={`cursor-pointer transition-colors ${row.region.id === selectedRegionId ? (isDarkMode ? 'bg-cyan-900/20' : 'bg-teal-50') : (isDarkMode ? 'hover:bg-slate-800/50' : 'hover:bg-slate-100')}`}
+              >
+                <td className={`${cellClass} font-sans`}>
+                  <span className="inline-flex items-center">
+                    <span className="w-2 h-2 rounded-sm mr-1.5 flex-shrink-0" style={{ backgroundColor: row.region.color }} />
+                    {row.type}
+                  </span>
+                </td>
+                <td className={cellClass}>{row.region.start.toFixed(2)}s</td>
+                <td className={cellClass}>{row.region.end.toFixed(2)}s</td>
+                <td className={cellClass}>{(row.region.end - row.region.start).toFixed(2)}s</td>
+                <td className={`${cellClass} font-sans`}>{row.sourceLabel}</td>
+                <td className={`${cellClass} font-sans text-slate-500 max-w-[16rem] truncate`} title={row.notes}>
+                  {row.isCovered === false && <span className="text-orange-400 mr-1">Not labeled</span>}
+                  {row.notes}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {visibleRows.length === 0 && (
+          <div className="p-3 text-[10px] text-slate-500">No regions match the filters.</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,30 +1,11 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Sparkles, Activity, AlertTriangle, CheckCircle2, ChevronRight, BrainCircuit, Loader2, Copy, Check, Terminal, FileCode, Sliders, ToggleLeft, ToggleRight, Download, Moon, Sun } from 'lucide-react';
 import { AudioFile, AnalysisStatus, AIFilterConfig, PatientContextData } from '../types';
 import { motion } from 'framer-motion';
-import { GoogleGenerativeAI } from "@google/generative-ai";
-
-// --- CONFIGURATION ---
-const ACTIVE_MODEL_STRING = "gemini-3-pro-preview";
-
-// --- AI INFRASTRUCTURE SETUP ---
-const fileToGenerativePart = async (file: File | Blob): Promise<{ inlineData: { data: string; mimeType: string } }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      const base64Data = result.split(',')[1];
-      resolve({
-        inlineData: {
-          data: base64Data,
-          mimeType: file.type || 'audio/wav',
-        },
-      });
-    };
-    reader.onerror = (error) => reject(error);
-    reader.readAsDataURL(file);
-  });
-};
+import { ACTIVE_MODEL_STRING, geminiProvider, parseRecommendedFilter, stripRecommendedFilter } from '../utils/analysis';
+import { downloadBlob } from '../utils/download';
+import { FILTER_STAGE_TYPES, describeFilterStage } from '../utils/filterChain';
+import { getAudioBlob } from '../utils/audioDecode';
 
 interface RightPanelProps {
   currentFile: AudioFile | null;
@@ -122,10 +103,14 @@ export const RightPanel: React.FC<RightPanelProps> = ({
   const [messages, setMessages] = useState<Array<{role: string, content: string}>>([]);
   const [progressMessage, setProgressMessage] = useState("Initializing...");
 
+  // Follow output replaced from outside the panel (reopened session, another recording selected)
+  useEffect(() => {
+    if (analysisStatus === AnalysisStatus.ANALYZING) return;
+    setMessages(aiAnalysisOutput ? [{ role: 'assistant', content: aiAnalysisOutput }] : []);
+  }, [aiAnalysisOutput]);
+
   const handleDeepAnalysis = async () => {
     if (!currentFile) return;
-    
-    const genAI = new GoogleGenerativeAI(process.env.API_KEY || '');
 
     setAnalysisStatus(AnalysisStatus.ANALYZING);
     setProgressMessage("Securely uploading buffer...");
@@ -135,66 +120,23 @@ export const RightPanel: React.FC<RightPanelProps> = ({
     setIsFilterActive(false);
 
     try {
-        const response = await fetch(currentFile.url);
-        const blob = await response.blob();
-        const audioPart = await fileToGenerativePart(blob);
-        
-        setProgressMessage("Gemini 3 Pro is reasoning...");
-
-        const systemInstruction = `You are a specialized Lung Sound Analyzer. You are expert at distinguishing the 'musical' quality of a wheeze from the 'scratchy' quality of friction. You prioritize finding pathology over dismissing data.
-
-**CRITICAL RULES:**
-1. **No Hallucinations:** Do NOT identify 'speech', 'voices', or 'talking' unless distinct, intelligible words are audible. Random broadband noise is NOT speech.
-2. **Noise Rejection:** Reject rhythmic thumping (heartbeats).
-3. **CONFIDENCE RULE:** If you detect a **continuous, musical, high-frequency sound (>400Hz)**, classify it as a **WHEEZE** with HIGH confidence. Musicality is rarely an artifact.
-4. **Frequency Awareness:** Be aware that this recording contains high-amplitude heartbeats (<150Hz). Do not confuse these rhythmic thumps with speech or lung pathology.
-
-**ANALYSIS PROTOCOL:**
-1. Quality Check: Briefly assess signal-to-noise ratio.
-2. Timeline Analysis: You MUST provide specific timestamps (e.g., '0:02 - 0:05') for the most distinct anomalies.
-3. Timestamp Precision: Only mark the *most intense* 0.5 - 1.0 second window of the anomaly. Do not label the entire breath cycle.
-4. Diagnosis: Brief, bulleted potential causes.
-5. Remediation Code: Based on the anomalies found (e.g., Low-frequency heartbeats or High-frequency hiss), generate a robust Python function using \`scipy.signal\` to filter this specific audio. Include comments explaining why you chose these cutoff frequencies. Label this section "Generated Research Tool: Audio Filter".
-6. Filter Parameters: You MUST output a JSON object at the very end of your response for the recommended filter settings to be used in a Web Audio API BiquadFilterNode. Format: {"recommendedFilter": {"type": "highpass" | "lowpass" | "bandpass", "frequency": number, "Q": number}}. Do not use markdown for this JSON block, just the raw JSON string at the end.`;
-        
-        const userPrompt = "Analyze this raw audio. There is a confirmed respiratory pathology present. Locate the strongest example of it. Do not be overly cautious.";
+        const blob = await getAudioBlob(currentFile.url);
 
-        const model = genAI.getGenerativeModel({ 
-            model: ACTIVE_MODEL_STRING,
-            systemInstruction: systemInstruction 
-        });
-
-        const result = await model.generateContentStream([
-            audioPart,
-            userPrompt
-        ]);
-
-        setProgressMessage("Receiving diagnostic stream...");
-
-        let fullResponse = "";
-        
-        setMessages([{ role: 'assistant', content: '' }]);
-
-        for await (const chunk of result.stream) {
-            const chunkText = chunk.text();
-            if (chunkText) {
-                fullResponse += chunkText;
+        let hasFilter = false;
+        await geminiProvider.analyze(blob, {
+            onProgress: setProgressMessage,
+            onText: (fullResponse) => {
                 setMessages([{ role: 'assistant', content: fullResponse }]);
                 setAiAnalysisOutput(fullResponse); 
 
-                const jsonRegex = /\{"recommendedFilter":\s*\{[\s\S]*?\}\}/;
-                const match = fullResponse.match(jsonRegex);
-                if (match) {
-                    try {
-                        const json = JSON.parse(match[0]);
-                        if (json.recommendedFilter) {
-                             setAiFilterConfig(json.recommendedFilter);
-                        }
-                    } catch (e) {
-                    }
+                // The chain is the last thing in the response; take it once so later chunks don't re-render the filter
+                const recommendedFilter = hasFilter ? null : parseRecommendedFilter(fullResponse);
+                if (recommendedFilter) {
+                    hasFilter = true;
+                    setAiFilterConfig(recommendedFilter);
                 }
             }
-        }
+        });
 
         setAnalysisStatus(AnalysisStatus.COMPLETED);
 
@@ -211,7 +153,7 @@ export const RightPanel: React.FC<RightPanelProps> = ({
   const handleDownloadReport = () => {
     if (!currentFile || !aiAnalysisOutput) return;
     const timestamp = new Date().toLocaleString();
-    let cleanAnalysis = aiAnalysisOutput.replace(/\{"recommendedFilter":\s*\{[\s\S]*?\}\}/, '');
+    let cleanAnalysis = stripRecommendedFilter(aiAnalysisOutput);
     
     const reportContent = `
 # CLINICAL AUDIO ANALYSIS REPORT
@@ -220,7 +162,7 @@ Date: ${timestamp}
 
 ## PATIENT CONTEXT
 - **Patient ID:** ${patientData.id || 'N/A'}
-- **Recording Location:** ${patientData.location}
+${patientData.diagnosis ? `- **Diagnosis:** ${patientData.diagnosis}\n` : ''}${patientData.age || patientData.sex ? `- **Age / Sex:** ${patientData.age || '?'} / ${patientData.sex || '?'}\n` : ''}- **Recording Location:** ${patientData.location}
 - **File Name:** ${currentFile.name}
 
 ---
@@ -231,22 +173,13 @@ ${cleanAnalysis}
 ---
 
 ## RESEARCH TOOL: AUDIO FILTER CONFIGURATION
-${aiFilterConfig ? `
-- **Filter Type:** ${aiFilterConfig.type}
-- **Cutoff Frequency:** ${aiFilterConfig.frequency} Hz
-- **Q Factor:** ${aiFilterConfig.Q}
-` : 'No filter configuration generated.'}
+${aiFilterConfig ? aiFilterConfig.stages.map((stage, i) =>
+`${i + 1}. **${FILTER_STAGE_TYPES[stage.type].label}**${stage.bypass ? ' (bypassed)' : ''}: ${describeFilterStage(stage)}, Q ${stage.Q}`).join('\n')
+: 'No filter configuration generated.'}
     `.trim();
 
     const blob = new Blob([reportContent], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `Patient_${patientData.id || 'Unknown'}_Report.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `Patient_${patientData.id || 'Unknown'}_Report.md`);
   };
 
   return (
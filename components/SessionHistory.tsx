@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import { History, Search, X, Trash2, FolderOpen, Loader2 } from 'lucide-react';
+import { AnalysisSession } from '../types';
+import { listSessions, deleteSession } from '../utils/sessionStore';
+
+interface SessionHistoryProps {
+  activeSessionId: string | null;
+  onReopen: (session: AnalysisSession) => void;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({ activeSessionId, onReopen, onClose, isDarkMode }) => {
+  const [sessions, setSessions] = useState<AnalysisSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((e: any) => setError(e?.message || 'Session storage is unavailable.'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (session: AnalysisSession) => {
+    if (!confirm(`Delete the saved session for ${session.fileName}?`)) return;
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+    } catch (e: any) {
+      setError(e?.message || 'Could not delete the session.');
+    }
+  };
+
+  const search = query.trim().toLowerCase();
+  const visible = search ? sessions.filter(s => s.patientId.toLowerCase().includes(search)) : sessions;
+
+  const headerClass = `px-3 py-2 text-left text-[9px] font-bold uppercase tracking-wider ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`;
+  const cellClass = `px-3 py-1.5 font-mono text-[11px] ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`;
+
+  return (
+    <div className={`absolute inset-0 z-30 flex flex-col ${isDarkMode ? 'bg-slate-950' : 'bg-slate-50'}`}>
+      {/* Toolbar */}
+      <div className={`flex items-center justify-between px-6 py-3 border-b ${isDarkMode ? 'border-slate-800 bg-slate-900/50' : 'border-slate-200 bg-white'}`}>
+        <div className="relative">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search patient ID..."
+            autoFocus
+            className={`pl-8 pr-3 py-1.5 text-xs rounded border font-mono w-56 focus:outline-none ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200 placeholder:text-slate-600 focus:border-cyan-500' : 'bg-white border-slate-300 text-slate-800 placeholder:text-slate-400 focus:border-teal-500'}`}
+          />
+          <Search size={14} className="absolute left-2.5 top-2 text-slate-500 pointer-events-none" />
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <span className="text-[10px] text-slate-500 font-mono">{visible.length} / {sessions.length} sessions</span>
+          <button onClick={onClose} className="p-1.5 text-slate-500 hover:text-red-400" title="Close History">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Sessions */}
+      <div className="flex-1 overflow-auto p-6">
+        {error && <div className="mb-4 text-xs text-red-400 font-mono">{error}</div>}
+
+        {isLoading ? (
+          <div className="h-full flex items-center justify-center text-slate-500">
+            <Loader2 size={20} className="animate-spin" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-center opacity-50">
+            <History size={40} className="mb-3 text-slate-500" />
+            <p className={`text-sm font-medium ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>{sessions.length === 0 ? 'No Saved Sessions' : 'No Matching Sessions'}</p>
+            <p className="text-xs text-slate-500 mt-1 max-w-xs">Sessions are saved in this browser when an analysis completes, or with Save in the file bar.</p>
+          </div>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className={`border-b ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+                <th className={headerClass}>Date</th>
+                <th className={headerClass}>Patient</th>
+                <th className={headerClass}>Recording</th>
+                <th className={headerClass}>Result</th>
+                <th className={headerClass}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(session => (
+                <tr
+                  key={session.id}
+                  className={`border-b ${isDarkMode ? 'border-slate-900' : 'border-slate-100'} ${session.id === activeSessionId ? (isDarkMode ? 'bg-cyan-950/30' : 'bg-teal-50') : ''}`}
+                >
+                  <td className={cellClass}>{new Date(session.date).toLocaleString()}</td>
+                  <td className={cellClass}>{session.patientId || '—'}</td>
+                  <td className={cellClass}>{session.fileName}</td>
+                  <td className={cellClass}>{session.resultSummary}</td>
+                  <td className={`${cellClass} text-right whitespace-nowrap`}>
+                    <button
+                      onClick={() => onReopen(session)}
+                      title="Reopen Session"
+                      className={`p-1 rounded transition-colors ${isDarkMode ? 'text-slate-400 hover:text-cyan-400' : 'text-slate-500 hover:text-teal-600'}`}
+                    >
+                      <FolderOpen size={14} />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(session)}
+                      title="Delete Session"
+                      className="p-1 rounded text-slate-500 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
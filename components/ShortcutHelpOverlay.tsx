@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { Keyboard, X, RotateCcw } from 'lucide-react';
+import {
+  ShortcutAction, ShortcutBindings, SHORTCUT_ACTIONS, SHORTCUT_GROUPS, DEFAULT_SHORTCUT_BINDINGS,
+  keyFromEvent, formatShortcutKey
+} from '../utils/shortcuts';
+
+interface ShortcutHelpOverlayProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+export const ShortcutHelpOverlay: React.FC<ShortcutHelpOverlayProps> = ({ bindings, onChange, onClose, isDarkMode }) => {
+  // Action waiting for its new key
+  const [remapping, setRemapping] = useState<ShortcutAction | null>(null);
+
+  // Escape closes the overlay. While remapping, the next key press becomes the binding instead
+  // (Escape cancels); a key can only trigger one action, so it is taken from whichever had it.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!remapping) {
+        if (e.key === 'Escape') onClose();
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        setRemapping(null);
+        return;
+      }
+      const key = keyFromEvent(e);
+      if (!key) return;
+      const next = Object.fromEntries(
+        (Object.keys(bindings) as ShortcutAction[]).map(action => [action, bindings[action].filter(k => k !== key)])
+      ) as ShortcutBindings;
+      next[remapping] = [key];
+      onChange(next);
+      setRemapping(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [remapping, bindings, onClose]);
+
+  const kbdClass = `px-1.5 py-0.5 text-[10px] font-mono rounded border ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200' : 'bg-slate-50 border-slate-300 text-slate-700'}`;
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/50" onClick={onClose}>
+      <div
+        className={`w-[480px] max-h-[80%] flex flex-col rounded-lg border shadow-xl ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className={`flex items-center justify-between px-4 py-3 border-b ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+          <div className="flex items-center space-x-2">
+            <Keyboard size={14} className={isDarkMode ? 'text-cyan-500' : 'text-teal-600'} />
+            <h3 className={`text-xs font-bold uppercase tracking-widest ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>Keyboard Shortcuts</h3>
+          </div>
+          <div className="flex items-center">
+            <button onClick={() => onChange(DEFAULT_SHORTCUT_BINDINGS)} className="p-1 text-slate-500 hover:text-slate-300" title="Reset to Defaults">
+              <RotateCcw size={14} />
+            </button>
+            <button onClick={onClose} className="p-1 text-slate-500 hover:text-red-400" title="Close">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {SHORTCUT_GROUPS.map(group => (
+            <div key={group} className="space-y-1">
+              <div className="text-[9px] font-bold uppercase tracking-wider text-slate-500">{group}</div>
+              {(Object.keys(SHORTCUT_ACTIONS) as ShortcutAction[]).filter(action => SHORTCUT_ACTIONS[action].group === group).map(action => (
+                <div key={action} className="flex items-center justify-between">
+                  <span className={`text-[11px] ${isDarkMode ? 'text-slate-300' : 'text-slate-700'}`}>{SHORTCUT_ACTIONS[action].label}</span>
+                  <button
+                    onClick={() => setRemapping(remapping === action ? null : action)}
+                    title="Click, then press the new key"
+                    className="flex items-center space-x-1"
+                  >
+                    {remapping === action ? (
+                      <span className={`${kbdClass} ${isDarkMode ? 'text-cyan-400 border-cyan-500' : 'text-teal-600 border-teal-500'}`}>Press a key...</span>
+                    ) : bindings[action].length > 0 ? (
+                      bindings[action].map(key => <kbd key={key} className={kbdClass}>{formatShortcutKey(key)}</kbd>)
+                    ) : (
+                      <span className={`${kbdClass} text-slate-500`}>Unassigned</span>
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className={`px-4 py-2 border-t text-[10px] text-slate-500 ${isDarkMode ? 'border-slate-800' : 'border-slate-200'}`}>
+          Click a key to remap it. Labeling keys mark the looped span, or the breath cycle at the playhead; press again to remove.
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,25 @@
-import React, { useState } from 'react';
-import { Stethoscope, Library, User, MapPin, Mic2, FileDigit, Settings2, PlayCircle, Loader2 } from 'lucide-react';
-import { PatientContextData, RecordingLocation } from '../types';
+import React, { useState, useRef } from 'react';
+import { Stethoscope, Library, User, MapPin, Mic2, FileDigit, Settings2, PlayCircle, Loader2, ClipboardList, X, PersonStanding, FolderOpen } from 'lucide-react';
+import { PatientContextData, RecordingLocation, ExaminationRecording, FileLoadStatus } from '../types';
+import { SiteFindingSummary } from '../utils/examination';
+import { ChestBodyMap } from './ChestBodyMap';
 import { motion } from 'framer-motion';
 
 interface SidebarProps {
   patientData: PatientContextData;
   setPatientData: React.Dispatch<React.SetStateAction<PatientContextData>>;
   onLoadDemo: (audioFile: File, labelText: string, labelFileName: string) => void;
+  patientTableSize: number;
+  patientTableStatus: FileLoadStatus | null; // Result of the last table load
+  onLoadPatientTables: (files: File[]) => void;
+  onClearPatientTables: () => void;
+  examination: ExaminationRecording[];
+  examinationFindings: Record<string, SiteFindingSummary | null>;
+  currentRecordingId: string | null;
+  onSelectRecording: (recording: ExaminationRecording) => void;
+  isSiteSelectionLocked: boolean;             // An AI analysis is streaming into the open recording
+  onLoadExamination: (files: File[]) => void;
+  examinationStatus: FileLoadStatus | null;  // Result of the last examination load
   isDarkMode: boolean;
 }
 
@@ -42,14 +55,30 @@ const DEVICE_OPTIONS = [
   'Other / Unknown'
 ];
 
-export const Sidebar: React.FC<SidebarProps> = ({ patientData, setPatientData, onLoadDemo, isDarkMode }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ patientData, setPatientData, onLoadDemo, patientTableSize, patientTableStatus, onLoadPatientTables, onClearPatientTables,
+  examination, examinationFindings, currentRecordingId, onSelectRecording, isSiteSelectionLocked, onLoadExamination, examinationStatus, isDarkMode
+}) => {
   const [loadingCase, setLoadingCase] = useState<string | null>(null);
+  const tableInputRef = useRef<HTMLInputElement>(null);
+  const examInputRef = useRef<HTMLInputElement>(null);
   
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setPatientData(prev => ({ ...prev, [name]: value }));
   };
 
+  const handleTableFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) onLoadPatientTables(files);
+    e.target.value = ''; // Allow reloading the same files
+  };
+
+  const handleExamFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) onLoadExamination(files);
+    e.target.value = '';
+  };
+
   const loadRemoteCase = async (demoCase: typeof DEMO_CASES[0]) => {
     setLoadingCase(demoCase.name);
     try {
@@ -87,7 +116,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ patientData, setPatientData, o
   const labelClass = `text-[10px] font-bold uppercase ml-1 ${isDarkMode ? 'text-slate-500' : 'text-slate-500'}`;
 
   return (
-    <div className="flex flex-col h-full p-6 space-y-8">
+    <div className="flex flex-col h-full p-6 space-y-8 overflow-y-auto">
       {/* Header */}
       <div className={`flex items-center space-x-3 ${isDarkMode ? 'text-cyan-400' : 'text-teal-600'}`}>
         <Stethoscope size={32} strokeWidth={2} />
@@ -99,10 +128,50 @@ export const Sidebar: React.FC<SidebarProps> = ({ patientData, setPatientData, o
 
       {/* Patient Context Section */}
       <div className="space-y-4">
-        <div className="flex items-center space-x-2 text-slate-400 mb-2">
-          <User size={16} />
-          <h2 className="text-sm font-semibold uppercase tracking-wide">Patient Context</h2>
+        <div className="flex items-center justify-between text-slate-400 mb-2">
+          <div className="flex items-center space-x-2">
+            <User size={16} />
+            <h2 className="text-sm font-semibold uppercase tracking-wide">Patient Context</h2>
+          </div>
+
+          {/* ICBHI diagnosis / demographic tables */}
+          <div className="flex items-center space-x-1">
+            <input
+              ref={tableInputRef}
+              type="file"
+              accept=".txt,.csv"
+              multiple
+              onChange={handleTableFiles}
+              className="hidden"
+            />
+            <button
+              onClick={() => tableInputRef.current?.click()}
+              title="Load ICBHI diagnosis and demographic files"
+              className={`flex items-center space-x-1 px-2 py-1 rounded text-[10px] font-bold uppercase transition-colors ${
+                  patientTableSize > 0
+                    ? (isDarkMode ? 'text-cyan-400 bg-cyan-950/40' : 'text-teal-700 bg-teal-50')
+                    : (isDarkMode ? 'hover:bg-slate-800 hover:text-slate-200' : 'hover:bg-slate-100 hover:text-slate-700')
+              }`}
+            >
+              <ClipboardList size={12} />
+              <span>{patientTableSize > 0 ? `${patientTableSize} Patients` : 'Load Tables'}</span>
+            </button>
+            {patientTableSize > 0 && (
+              <button
+                onClick={onClearPatientTables}
+                title="Forget loaded patient tables"
+                className={`p-1 rounded transition-colors ${isDarkMode ? 'hover:bg-slate-800 hover:text-red-400' : 'hover:bg-slate-100 hover:text-red-500'}`}
+              >
+                <X size={12} />
+              </button>
+            )}
+          </div>
         </div>
+        {patientTableStatus && (
+          <p className={`text-[10px] font-mono break-words ${patientTableStatus.isError ? 'text-orange-400' : 'text-slate-500'}`}>
+            {patientTableStatus.text}
+          </p>
+        )}
         
         <div className="space-y-4">
           
@@ -198,11 +267,134 @@ export const Sidebar: React.FC<SidebarProps> = ({ patientData, setPatientData, o
              </div>
           </div>
 
+          {/* Row 5: Diagnosis */}
+          <div className="space-y-1">
+             <label htmlFor="diagnosis" className={labelClass}>Diagnosis</label>
+             <input
+               type="text"
+               name="diagnosis"
+               id="diagnosis"
+               value={patientData.diagnosis || ''}
+               onChange={handleInputChange}
+               placeholder="COPD"
+               className={inputClass}
+             />
+          </div>
+
+          {/* Row 6: Demographics */}
+          <div className="grid grid-cols-3 gap-3">
+             <div className="space-y-1">
+                <label htmlFor="age" className={labelClass}>Age</label>
+                <input
+                  type="text"
+                  name="age"
+                  id="age"
+                  value={patientData.age || ''}
+                  onChange={handleInputChange}
+                  placeholder="70"
+                  className={inputClass}
+                />
+             </div>
+             <div className="space-y-1">
+                <label htmlFor="sex" className={labelClass}>Sex</label>
+                <input
+                  type="text"
+                  name="sex"
+                  id="sex"
+                  value={patientData.sex || ''}
+                  onChange={handleInputChange}
+                  placeholder="M"
+                  className={inputClass}
+                />
+             </div>
+             <div className="space-y-1">
+                <label htmlFor="bmi" className={labelClass}>BMI</label>
+                <input
+                  type="text"
+                  name="bmi"
+                  id="bmi"
+                  value={patientData.bmi || ''}
+                  onChange={handleInputChange}
+                  placeholder="25.0"
+                  className={inputClass}
+                />
+             </div>
+          </div>
+
+          {/* Row 7: Pediatric measurements (ICBHI records weight/height instead of BMI for children) */}
+          {(patientData.childWeight || patientData.childHeight) && (
+            <div className="grid grid-cols-2 gap-3">
+               <div className="space-y-1">
+                  <label htmlFor="childWeight" className={labelClass}>Weight (kg)</label>
+                  <input
+                    type="text"
+                    name="childWeight"
+                    id="childWeight"
+                    value={patientData.childWeight || ''}
+                    onChange={handleInputChange}
+                    className={inputClass}
+                  />
+               </div>
+               <div className="space-y-1">
+                  <label htmlFor="childHeight" className={labelClass}>Height (cm)</label>
+                  <input
+                    type="text"
+                    name="childHeight"
+                    id="childHeight"
+                    value={patientData.childHeight || ''}
+                    onChange={handleInputChange}
+                    className={inputClass}
+                  />
+               </div>
+            </div>
+          )}
+
         </div>
       </div>
 
+      {/* Auscultation Sites Section */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between text-slate-400">
+          <div className="flex items-center space-x-2">
+            <PersonStanding size={16} />
+            <h2 className="text-sm font-semibold uppercase tracking-wide">Auscultation Sites</h2>
+          </div>
+          <input
+            ref={examInputRef}
+            type="file"
+            accept="audio/*,.wav,.txt"
+            multiple
+            onChange={handleExamFiles}
+            className="hidden"
+          />
+          <button
+            onClick={() => examInputRef.current?.click()}
+            title="Load all recordings (.wav + .txt labels) of one patient"
+            className={`flex items-center space-x-1 px-2 py-1 rounded text-[10px] font-bold uppercase transition-colors ${isDarkMode ? 'hover:bg-slate-800 hover:text-slate-200' : 'hover:bg-slate-100 hover:text-slate-700'}`}
+          >
+            <FolderOpen size={12} />
+            <span>Load Exam</span>
+          </button>
+        </div>
+
+        {examinationStatus && (
+          <p className={`text-[10px] font-mono break-words ${examinationStatus.isError ? 'text-orange-400' : 'text-slate-500'}`}>
+            {examinationStatus.text}
+          </p>
+        )}
+
+        <ChestBodyMap
+          recordings={examination}
+          findings={examinationFindings}
+          currentRecordingId={currentRecordingId}
+          onSelectRecording={onSelectRecording}
+          isLocked={isSiteSelectionLocked}
+          isDarkMode={isDarkMode}
+        />
+      </div>
+
       {/* Reference Cases Section */}
-      <div className="flex-1 overflow-hidden flex flex-col">
+      <div className="flex-1 min-h-[160px] overflow-hidden flex flex-col">
         <div className="flex items-center space-x-2 text-slate-400 mb-4">
           <Library size={16} />
           <h2 className="text-sm font-semibold uppercase tracking-wide">Reference Cases</h2>
@@ -0,0 +1,137 @@
+import React from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import {
+  SpectrogramSettings, SpectrogramWindow, SpectrogramScale, SpectrogramColormap,
+  SPECTROGRAM_DEFAULTS, SPECTROGRAM_PRESETS, SPECTROGRAM_COLORMAPS, SPECTROGRAM_SCALES, SPECTROGRAM_WINDOWS, FFT_SIZES, OVERLAP_OPTIONS,
+  isValidSpectrogramSettings
+} from '../utils/spectrogramSettings';
+
+interface SpectrogramSettingsPopoverProps {
+  settings: SpectrogramSettings;
+  onChange: (settings: SpectrogramSettings) => void;
+  onClose: () => void;
+  isDarkMode: boolean;
+}
+
+// CSS gradient preview of a colormap
+const colormapGradient = (colormap: SpectrogramColormap) => {
+  const colors = SPECTROGRAM_COLORMAPS[colormap].colors;
+  const stops = [0, 64, 128, 192, 255].map(i => `rgb(${colors[i].slice(0, 3).map(c => Math.round(c * 255)).join(',')})`);
+  return `linear-gradient(to right, ${stops.join(',')})`;
+};
+
+export const SpectrogramSettingsPopover: React.FC<SpectrogramSettingsPopoverProps> = ({ settings, onChange, onClose, isDarkMode }) => {
+  const update = (changes: Partial<SpectrogramSettings>) => onChange({ ...settings, ...changes });
+
+  const handleNumber = (key: 'frequencyMin' | 'frequencyMax' | 'ceilingDb' | 'floorDb') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!isNaN(value)) update({ [key]: value });
+  };
+
+  const labelClass = 'text-[9px] font-bold uppercase tracking-wider text-slate-500';
+  const inputClass = `w-full px-1.5 py-0.5 text-[10px] rounded border font-mono ${isDarkMode ? 'bg-slate-800 border-slate-700 text-slate-200' : 'bg-white border-slate-300 text-slate-800'}`;
+  const optionClass = (isActive: boolean) => `px-1.5 py-0.5 text-[10px] rounded border transition-colors ${
+    isActive
+      ? (isDarkMode ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-teal-600 text-white border-teal-500')
+      : (isDarkMode ? 'bg-slate-800 text-slate-400 border-slate-700 hover:text-slate-200' : 'bg-white text-slate-500 border-slate-300 hover:text-slate-800')
+  }`;
+
+  return (
+    <div
+      className={`absolute top-2 right-2 z-30 w-64 rounded-lg border shadow-xl p-3 space-y-3 ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className={`text-[10px] font-bold uppercase tracking-widest ${isDarkMode ? 'text-slate-200' : 'text-slate-800'}`}>Spectrogram</span>
+        <div className="flex items-center">
+          <button onClick={() => onChange(SPECTROGRAM_DEFAULTS)} title="Reset to Defaults" className="p-1 text-slate-500 hover:text-slate-300">
+            <RotateCcw size={12} />
+          </button>
+          <button onClick={onClose} title="Close" className="p-1 text-slate-500 hover:text-red-400">
+            <X size={12} />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className={labelClass}>Preset</div>
+        <div className="flex gap-1">
+          {SPECTROGRAM_PRESETS.map(preset => (
+            <button key={preset.label} onClick={() => onChange(preset.settings)} className={optionClass(JSON.stringify(preset.settings) === JSON.stringify(settings))}>
+              {preset.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <label className="space-y-1 block">
+          <div className={labelClass}>FFT</div>
+          <select value={settings.fftSamples} onChange={(e) => update({ fftSamples: Number(e.target.value) })} className={inputClass}>
+            {FFT_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1 block">
+          <div className={labelClass}>Window</div>
+          <select value={settings.windowFunc} onChange={(e) => update({ windowFunc: e.target.value as SpectrogramWindow })} className={inputClass}>
+            {SPECTROGRAM_WINDOWS.map(w => <option key={w} value={w}>{w}</option>)}
+          </select>
+        </label>
+        <label className="space-y-1 block">
+          <div className={labelClass}>Overlap</div>
+          <select
+            value={settings.overlap ?? ''}
+            onChange={(e) => update({ overlap: e.target.value ? Number(e.target.value) : null })}
+            className={inputClass}
+          >
+            {OVERLAP_OPTIONS.map(o => <option key={o ?? 'auto'} value={o ?? ''}>{o === null ? 'Auto' : `${o * 100}%`}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="space-y-1">
+        <div className={labelClass}>Frequency (Hz)</div>
+        <div className="flex items-center space-x-1">
+          <input type="number" min={0} step={50} value={settings.frequencyMin} onChange={handleNumber('frequencyMin')} className={inputClass} />
+          <span className="text-[10px] text-slate-500">to</span>
+          <input type="number" min={0} step={50} value={settings.frequencyMax} onChange={handleNumber('frequencyMax')} className={inputClass} />
+        </div>
+        <div className="flex gap-1 pt-1">
+          {(Object.keys(SPECTROGRAM_SCALES) as SpectrogramScale[]).map(scale => (
+            <button key={scale} onClick={() => update({ scale })} className={optionClass(settings.scale === scale)}>{SPECTROGRAM_SCALES[scale]}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className={labelClass}>Level (dB floor / ceiling)</div>
+        <div className="flex items-center space-x-1">
+          <input type="number" max={0} step={5} value={settings.floorDb} onChange={handleNumber('floorDb')} className={inputClass} />
+          <span className="text-[10px] text-slate-500">to</span>
+          <input type="number" max={0} step={5} value={settings.ceilingDb} onChange={handleNumber('ceilingDb')} className={inputClass} />
+        </div>
+        {!isValidSpectrogramSettings(settings) && <div className="text-[10px] text-red-400 font-mono">Each upper bound must exceed its lower bound</div>}
+      </div>
+
+      <div className="space-y-1">
+        <div className={labelClass}>Colormap</div>
+        <div className="grid grid-cols-2 gap-1">
+          {(Object.keys(SPECTROGRAM_COLORMAPS) as SpectrogramColormap[]).map(colormap => (
+            <button
+              key={colormap}
+              onClick={() => update({ colormap })}
+              className={`flex flex-col items-stretch p-1 rounded border text-[10px] transition-colors ${
+                settings.colormap === colormap
+                  ? (isDarkMode ? 'border-cyan-500 text-slate-200' : 'border-teal-500 text-slate-800')
+                  : (isDarkMode ? 'border-slate-700 text-slate-400' : 'border-slate-300 text-slate-500')
+              }`}
+            >
+              <span className="h-2 rounded-sm mb-0.5" style={{ background: colormapGradient(colormap) }} />
+              {SPECTROGRAM_COLORMAPS[colormap].label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,29 +1,71 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { RegionData } from '../types';
 import { LabelControlZone } from './LabelControlZone';
-import { FileText } from 'lucide-react';
+import { CLINICAL_REGION_STYLES, ClinicalClass, AnnotationClass, LabelParseIssue, annotationColor, isCycleRegion } from '../utils/labelFormats';
+import { EventOutcome } from '../utils/evaluation';
+import { FileText, PenLine, Trash2, Repeat, X } from 'lucide-react';
 
 interface TimelineTrackProps {
   duration: number;
   clinicalRegions: RegionData[];
   aiRegions: RegionData[];
   onSeek: (time: number) => void;
-  onRegionsLoaded: (regions: RegionData[], fileName: string) => void;
+  onRegionsLoaded: (regions: RegionData[], fileName: string, issues: LabelParseIssue[]) => void;
   onClear: () => void;
+  // When provided, the clinical lanes become editable (create / move / resize / reclassify / delete)
+  onClinicalRegionsChange?: (regions: RegionData[]) => void;
   currentLabelFile: string | null;
+  // Evaluation result per region id (true positive / miss / false alarm), drawn as outlines
+  regionOutcomes?: Record<string, EventOutcome>;
+  // Read-only candidate lanes from the in-browser detectors, drawn below the AI lane
+  detectorLanes?: DetectorLane[];
+  // Offered for the selected region of any lane
+  onLoopRegion?: (region: RegionData) => void;
+  // Controlled selection (e.g. shared with the region navigator); uncontrolled when omitted
+  selectedRegionId?: string | null;
+  onSelectedRegionChange?: (id: string | null) => void;
   currentTime?: number;
   zoomLevel: number;
+  scrollTime?: number | null; // Left edge of the view (e.g. set from the overview); follows the playhead when null
   isDarkMode: boolean;
 }
 
+export interface DetectorLane {
+  id: string;
+  label: string;          // e.g. "Detector: Crackles"
+  regions: RegionData[];
+  badgeColor: string;
+}
+
 interface SwimlaneData {
   id: string;
   label: string;
   regions: RegionData[];
   colorClass: string;
   badgeColor: string;
+  editableClass?: AnnotationClass;
+}
+
+type RegionDragMode = 'create' | 'move' | 'resize-start' | 'resize-end';
+
+interface RegionDragState {
+  mode: RegionDragMode;
+  region: RegionData;
+  anchorTime: number; // Time under the pointer when the drag started
+  moved: boolean;
 }
 
+const OUTCOME_STYLES: Record<EventOutcome, { className: string; label: string }> = {
+  tp: { className: 'outline outline-2 outline-emerald-400', label: 'Match' },
+  fn: { className: 'outline-dashed outline-2 outline-red-500', label: 'Missed' },
+  fp: { className: 'outline outline-2 outline-orange-400', label: 'False alarm' },
+};
+
+// Shortest region that can be created or resized to (seconds)
+const MIN_REGION_DURATION = 0.05;
+// Pointer travel (px) before a press is treated as a drag instead of a click
+const DRAG_THRESHOLD_PX = 3;
+
 export const TimelineTrack: React.FC<TimelineTrackProps> = ({
   duration,
   clinicalRegions,
@@ -31,9 +73,16 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
   onSeek,
   onRegionsLoaded,
   onClear,
+  onClinicalRegionsChange,
   currentLabelFile,
+  regionOutcomes,
+  detectorLanes = [],
+  onLoopRegion,
+  selectedRegionId: controlledSelectedRegionId,
+  onSelectedRegionChange,
   currentTime = 0,
   zoomLevel,
+  scrollTime = null,
   isDarkMode
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -43,6 +92,19 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const dragCounter = useRef(0);
 
+  // Editing State
+  const isEditable = !!onClinicalRegionsChange;
+  const [isManualMode, setIsManualMode] = useState(false);
+  const [internalSelectedRegionId, setInternalSelectedRegionId] = useState<string | null>(null);
+  const selectedRegionId = controlledSelectedRegionId !== undefined ? controlledSelectedRegionId : internalSelectedRegionId;
+  const setSelectedRegionId = (id: string | null) => {
+    setInternalSelectedRegionId(id);
+    onSelectedRegionChange?.(id);
+  };
+  const [draftRegion, setDraftRegion] = useState<RegionData | null>(null);
+  const regionDrag = useRef<RegionDragState | null>(null);
+  const dragStartX = useRef(0);
+
   // Resize Observer to handle responsive width
   useEffect(() => {
     if (!containerRef.current) return;
@@ -55,15 +117,35 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
     return () => observer.disconnect();
   }, []);
 
-  const wheezeRegions = clinicalRegions.filter(r => r.content.toLowerCase().includes('wheeze'));
-  const crackleRegions = clinicalRegions.filter(r => r.content.toLowerCase().includes('crackle'));
+  // Drop the selection if the region disappears (e.g. labels cleared or replaced)
+  const readOnlyRegions = useMemo(() => [...aiRegions, ...detectorLanes.flatMap(lane => lane.regions)], [aiRegions, detectorLanes]);
+  useEffect(() => {
+    if (selectedRegionId && !clinicalRegions.some(r => r.id === selectedRegionId) && !readOnlyRegions.some(r => r.id === selectedRegionId)) {
+      setSelectedRegionId(null);
+    }
+  }, [clinicalRegions, readOnlyRegions, selectedRegionId]);
+
+  // While dragging, render the draft in place of (or in addition to) the committed region
+  const displayedRegions = draftRegion
+    ? [...clinicalRegions.filter(r => r.id !== draftRegion.id), draftRegion]
+    : clinicalRegions;
+
+  const cycleRegions = displayedRegions.filter(isCycleRegion).sort((a, b) => a.start - b.start);
+  const wheezeRegions = displayedRegions.filter(r => r.content.toLowerCase().includes('wheeze'));
+  const crackleRegions = displayedRegions.filter(r => r.content.toLowerCase().includes('crackle'));
+  const selectedRegion = clinicalRegions.find(r => r.id === selectedRegionId) || null;
+  // Gemini / detector regions can be selected (to loop them) but not edited
+  const selectedReadOnlyRegion = selectedRegion ? null : readOnlyRegions.find(r => r.id === selectedRegionId) || null;
   
-  // Show Drop Zone overlay ONLY if no human labels file is loaded AND no AI labels are present.
-  const showDropZone = !currentLabelFile && aiRegions.length === 0;
+  // Show Drop Zone overlay ONLY if no human labels file is loaded AND no AI labels are present
+  // (and the user has not chosen to start annotating from scratch).
+  const showDropZone = !currentLabelFile && aiRegions.length === 0 && clinicalRegions.length === 0 && detectorLanes.length === 0 && !isManualMode;
 
   // --- NEW ROBUST SCROLLING LOGIC ---
-  const currentPixel = currentTime * zoomLevel;
-  const contentWidth = duration * zoomLevel;
+  // Like the waveform tracks (fillParent), a recording shorter than the viewport is stretched to fill it
+  const pxPerSec = duration > 0 ? Math.max(zoomLevel, containerWidth / duration) : zoomLevel;
+  const currentPixel = currentTime * pxPerSec;
+  const contentWidth = duration * pxPerSec;
   
   // Ensure the track fills the container at minimum
   const totalScrollableWidth = Math.max(containerWidth, contentWidth);
@@ -73,7 +155,11 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
   let scrollLeft = 0;
   let cursorLeft = 0;
 
-  if (currentPixel < halfWidth) {
+  if (scrollTime !== null) {
+      // Fixed view (scrolled from the overview): the cursor moves, and may leave the viewport
+      scrollLeft = Math.min(Math.max(0, scrollTime * pxPerSec), maxScroll);
+      cursorLeft = currentPixel - scrollLeft;
+  } else if (currentPixel < halfWidth) {
       // Phase 1: Beginning (Cursor moves, Viewport fixed at 0)
       scrollLeft = 0;
       cursorLeft = currentPixel;
@@ -91,16 +177,133 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
   
   // Define Swimlanes
   const lanes: SwimlaneData[] = [
-    { id: 'wheeze', label: 'Wheezes', regions: wheezeRegions, colorClass: 'border-l border-white/20 opacity-90', badgeColor: 'text-red-400' },
-    { id: 'crackle', label: 'Crackles', regions: crackleRegions, colorClass: 'border-l border-white/20 opacity-90', badgeColor: 'text-amber-400' },
+    { id: 'cycle', label: 'Cycles', regions: cycleRegions, colorClass: 'border-x border-slate-400/30', badgeColor: 'text-slate-400', editableClass: 'Cycle' },
+    { id: 'wheeze', label: 'Wheezes', regions: wheezeRegions, colorClass: 'border-l border-white/20 opacity-90', badgeColor: 'text-red-400', editableClass: 'Wheeze' },
+    { id: 'crackle', label: 'Crackles', regions: crackleRegions, colorClass: 'border-l border-white/20 opacity-90', badgeColor: 'text-amber-400', editableClass: 'Crackle' },
   ];
 
   if (aiRegions.length > 0) {
     lanes.push({ id: 'ai', label: 'Gemini AI', regions: aiRegions, colorClass: 'shadow-[0_0_8px_rgba(168,85,247,0.3)] opacity-80', badgeColor: 'text-purple-400' });
   }
+  detectorLanes.forEach(lane => {
+    lanes.push({ ...lane, id: `detector-${lane.id}`, colorClass: 'border border-dashed border-white/40 opacity-70' });
+  });
 
   // Row Height Calculation
   const rowHeight = 36; // px
+  // Leave room below the lanes for the selection editor / source indicator
+  const trackHeight = Math.max(140, lanes.length * rowHeight + 32);
+
+  // --- REGION EDITING ---
+  const pointerToTime = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    const t = ((clientX - (rect?.left || 0)) + scrollLeft) / pxPerSec;
+    return Math.min(Math.max(0, t), duration > 0 ? duration : t);
+  };
+
+  const commitRegions = (regions: RegionData[]) => {
+    if (!onClinicalRegionsChange) return;
+    onClinicalRegionsChange([...regions].sort((a, b) => a.start - b.start));
+  };
+
+  const beginRegionDrag = (e: React.PointerEvent, mode: RegionDragMode, region: RegionData) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    regionDrag.current = { mode, region, anchorTime: pointerToTime(e.clientX), moved: false };
+    dragStartX.current = e.clientX;
+    containerRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handleLanePointerDown = (e: React.PointerEvent, lane: SwimlaneData) => {
+    if (!isEditable || !lane.editableClass) return;
+    const t = pointerToTime(e.clientX);
+    beginRegionDrag(e, 'create', {
+      id: `clinical-manual-${Date.now()}`,
+      start: t,
+      end: t,
+      content: lane.editableClass,
+      color: annotationColor(lane.editableClass)
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = regionDrag.current;
+    if (!drag) return;
+    if (!drag.moved && Math.abs(e.clientX - dragStartX.current) < DRAG_THRESHOLD_PX) return;
+    drag.moved = true;
+
+    const t = pointerToTime(e.clientX);
+    const { start, end } = drag.region;
+    const maxEnd = duration > 0 ? duration : Infinity;
+    let next = { start, end };
+
+    switch (drag.mode) {
+      case 'create':
+        next = { start: Math.min(drag.anchorTime, t), end: Math.max(drag.anchorTime, t) };
+        break;
+      case 'move': {
+        const length = end - start;
+        const newStart = Math.min(Math.max(0, start + (t - drag.anchorTime)), maxEnd - length);
+        next = { start: newStart, end: newStart + length };
+        break;
+      }
+      case 'resize-start':
+        next = { start: Math.min(t, end - MIN_REGION_DURATION), end };
+        break;
+      case 'resize-end':
+        next = { start, end: Math.max(t, start + MIN_REGION_DURATION) };
+        break;
+    }
+
+    setDraftRegion({ ...drag.region, ...next });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = regionDrag.current;
+    if (!drag) return;
+    regionDrag.current = null;
+    containerRef.current?.releasePointerCapture(e.pointerId);
+
+    if (!drag.moved) {
+      // Plain click: select existing regions and seek to them, deselect on empty lane space
+      if (drag.mode === 'create') {
+        setSelectedRegionId(null);
+      } else {
+        setSelectedRegionId(drag.region.id);
+        onSeek(drag.region.start);
+      }
+      return;
+    }
+
+    const draft = draftRegion;
+    setDraftRegion(null);
+    if (!draft || draft.end - draft.start < MIN_REGION_DURATION) return;
+
+    const exists = clinicalRegions.some(r => r.id === draft.id);
+    commitRegions(exists
+      ? clinicalRegions.map(r => (r.id === draft.id ? draft : r))
+      : [...clinicalRegions, draft]);
+    setSelectedRegionId(draft.id);
+  };
+
+  const handleSetRegionClass = (regionClass: ClinicalClass) => {
+    if (!selectedRegion) return;
+    commitRegions(clinicalRegions.map(r => (
+      r.id === selectedRegion.id ? { ...r, content: regionClass, color: CLINICAL_REGION_STYLES[regionClass] } : r
+    )));
+  };
+
+  const handleDeleteRegion = () => {
+    if (!selectedRegion) return;
+    commitRegions(clinicalRegions.filter(r => r.id !== selectedRegion.id));
+    setSelectedRegionId(null);
+  };
+
+  const handleClear = () => {
+    setIsManualMode(false);
+    setSelectedRegionId(null);
+    onClear();
+  };
 
   // --- Drag & Drop Visibility Handlers ---
   const handleDragEnter = (e: React.DragEvent) => {
@@ -135,20 +338,33 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
     <div 
         ref={containerRef} 
         className={`w-full h-full relative overflow-hidden group ${isDarkMode ? 'bg-slate-900/20' : 'bg-slate-100/50'}`}
+        style={{ minHeight: trackHeight }}
         onDragEnter={handleDragEnter}
         onDragLeave={handleDragLeave}
         onDragOver={handleDragOver}
         onDrop={handleDrop}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
     >
       
       {showDropZone ? (
          <div className={`absolute inset-0 z-50 p-2 backdrop-blur-[1px] ${isDarkMode ? 'bg-slate-900/50' : 'bg-slate-50/50'}`}>
             <LabelControlZone 
                 onRegionsLoaded={onRegionsLoaded}
-                onClear={onClear}
+                onClear={handleClear}
                 hasLabels={false}
                 currentLabelFile={null}
             />
+            {isEditable && (
+                <button
+                    onClick={() => setIsManualMode(true)}
+                    className={`mx-auto flex items-center space-x-1.5 text-[10px] uppercase tracking-wide transition-colors ${isDarkMode ? 'text-slate-500 hover:text-cyan-400' : 'text-slate-500 hover:text-teal-600'}`}
+                >
+                    <PenLine size={10} />
+                    <span>Or annotate manually</span>
+                </button>
+            )}
          </div>
       ) : (
         <>
@@ -165,7 +381,7 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
                     className="absolute inset-0 pointer-events-none opacity-10" 
                     style={{ 
                         backgroundImage: `linear-gradient(90deg, ${isDarkMode ? '#475569' : '#94a3b8'} 1px, transparent 1px)`, 
-                        backgroundSize: `${zoomLevel}px 100%` 
+                        backgroundSize: `${pxPerSec}px 100%` 
                     }}
                 />
 
@@ -173,34 +389,61 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
                 {lanes.map((lane, index) => (
                     <div 
                         key={lane.id} 
-                        className={`absolute w-full border-b ${isDarkMode ? 'border-slate-800/30' : 'border-slate-200/50'}`}
+                        className={`absolute w-full border-b ${isDarkMode ? 'border-slate-800/30' : 'border-slate-200/50'} ${isEditable && lane.editableClass ? 'cursor-crosshair' : ''}`}
                         style={{ 
                             top: index * rowHeight, 
                             height: rowHeight 
                         }}
+                        onPointerDown={(e) => handleLanePointerDown(e, lane)}
                     >
-                        {lane.regions.map(region => (
-                            <div
-                                key={region.id}
-                                onClick={(e) => { e.stopPropagation(); onSeek(region.start); }}
-                                className={`absolute top-1 bottom-1 rounded-sm cursor-pointer hover:brightness-125 transition-all ${lane.colorClass}`}
-                                style={{
-                                    left: `${region.start * zoomLevel}px`,
-                                    width: `${Math.max(2, (region.end - region.start) * zoomLevel)}px`,
-                                    backgroundColor: region.color
-                                }}
-                                title={lane.id === 'ai' ? 'Gemini 3 Pro Prediction' : `${region.content} (${region.start.toFixed(2)}s - ${region.end.toFixed(2)}s)`}
-                            />
-                        ))}
+                        {lane.regions.map((region, regionIndex) => {
+                            const canEdit = isEditable && !!lane.editableClass;
+                            const isSelected = region.id === selectedRegionId;
+                            const outcome = regionOutcomes?.[region.id];
+                            return (
+                                <div
+                                    key={region.id}
+                                    onClick={canEdit ? undefined : (e) => { e.stopPropagation(); setSelectedRegionId(region.id); onSeek(region.start); }}
+                                    onPointerDown={canEdit ? (e) => beginRegionDrag(e, 'move', region) : undefined}
+                                    className={`absolute top-1 bottom-1 rounded-sm overflow-hidden hover:brightness-125 transition-[filter] ${canEdit ? 'cursor-grab' : 'cursor-pointer'} ${lane.colorClass} ${lane.id === 'cycle' && regionIndex % 2 === 1 ? 'opacity-60' : ''} ${isSelected ? (isDarkMode ? 'ring-1 ring-white' : 'ring-1 ring-slate-900') : ''} ${outcome ? `${OUTCOME_STYLES[outcome].className} -outline-offset-2` : ''}`}
+                                    style={{
+                                        left: `${region.start * pxPerSec}px`,
+                                        width: `${Math.max(2, (region.end - region.start) * pxPerSec)}px`,
+                                        backgroundColor: region.color
+                                    }}
+                                    title={`${lane.id === 'ai' ? `Gemini 3 Pro Prediction: ${region.content}` : lane.id.startsWith('detector-') ? `Detector Candidate: ${region.content}` : region.content} (${region.start.toFixed(2)}s - ${region.end.toFixed(2)}s)${outcome ? ` - ${OUTCOME_STYLES[outcome].label}` : ''}`}
+                                >
+                                    {lane.id === 'cycle' && (
+                                        <span className={`absolute inset-0 flex items-center justify-center text-[9px] font-mono pointer-events-none ${isDarkMode ? 'text-slate-300' : 'text-slate-600'}`}>
+                                            {regionIndex + 1}
+                                        </span>
+                                    )}
+                                    {canEdit && (
+                                        <>
+                                            <div
+                                                className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+                                                onPointerDown={(e) => beginRegionDrag(e, 'resize-start', region)}
+                                            />
+                                            <div
+                                                className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+                                                onPointerDown={(e) => beginRegionDrag(e, 'resize-end', region)}
+                                            />
+                                        </>
+                                    )}
+                                </div>
+                            );
+                        })}
                     </div>
                 ))}
             </div>
 
             {/* --- INDEPENDENT PLAYHEAD LAYER --- */}
-            <div 
-                className={`absolute top-0 bottom-0 w-0.5 z-40 pointer-events-none ${isDarkMode ? 'bg-white shadow-[0_0_8px_rgba(255,255,255,0.6)]' : 'bg-teal-600 shadow-[0_0_4px_rgba(13,148,136,0.4)]'}`}
-                style={{ left: `${cursorLeft}px` }}
-            />
+            {cursorLeft >= 0 && cursorLeft <= containerWidth && (
+                <div 
+                    className={`absolute top-0 bottom-0 w-0.5 z-40 pointer-events-none ${isDarkMode ? 'bg-white shadow-[0_0_8px_rgba(255,255,255,0.6)]' : 'bg-teal-600 shadow-[0_0_4px_rgba(13,148,136,0.4)]'}`}
+                    style={{ left: `${cursorLeft}px` }}
+                />
+            )}
 
             {/* --- FIXED OVERLAY LAYER (Labels) --- */}
             <div className="absolute inset-0 pointer-events-none">
@@ -220,12 +463,80 @@ export const TimelineTrack: React.FC<TimelineTrackProps> = ({
                 ))}
             </div>
 
+            {/* Selected Region Editor */}
+            {selectedRegion && (
+                <div className={`absolute bottom-2 left-2 z-50 flex items-center space-x-1 px-1.5 py-1 rounded-md border backdrop-blur-sm shadow-sm ${isDarkMode ? 'bg-slate-900/90 border-slate-700' : 'bg-white/90 border-slate-200'}`}>
+                    <span className="text-[9px] text-slate-400 font-mono mr-1">
+                        {selectedRegion.start.toFixed(2)}s - {selectedRegion.end.toFixed(2)}s
+                    </span>
+                    {isCycleRegion(selectedRegion) ? (
+                        <span className="px-1.5 py-0.5 text-[9px] font-bold uppercase tracking-wider text-slate-400">
+                            Cycle {cycleRegions.findIndex(c => c.id === selectedRegion.id) + 1}
+                        </span>
+                    ) : (Object.keys(CLINICAL_REGION_STYLES) as ClinicalClass[]).map(regionClass => (
+                        <button
+                            key={regionClass}
+                            onClick={() => handleSetRegionClass(regionClass)}
+                            className={`px-1.5 py-0.5 text-[9px] font-bold uppercase tracking-wider rounded border transition-colors ${
+                                selectedRegion.content === regionClass
+                                ? (regionClass === 'Wheeze' ? 'text-red-400 border-red-500/50 bg-red-500/10' : 'text-amber-400 border-amber-500/50 bg-amber-500/10')
+                                : (isDarkMode ? 'text-slate-500 border-slate-700 hover:text-slate-200' : 'text-slate-500 border-slate-300 hover:text-slate-800')
+                            }`}
+                        >
+                            {regionClass}
+                        </button>
+                    ))}
+                    {onLoopRegion && (
+                        <button
+                            onClick={() => onLoopRegion(selectedRegion)}
+                            title="Loop this Region"
+                            className={`p-1 text-slate-500 transition-colors ${isDarkMode ? 'hover:text-cyan-400' : 'hover:text-teal-600'}`}
+                        >
+                            <Repeat size={12} />
+                        </button>
+                    )}
+                    <button
+                        onClick={handleDeleteRegion}
+                        title="Delete Region"
+                        className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                </div>
+            )}
+
+            {/* Selected Read-Only Region (Gemini / detector) */}
+            {selectedReadOnlyRegion && onLoopRegion && (
+                <div className={`absolute bottom-2 left-2 z-50 flex items-center space-x-1 px-1.5 py-1 rounded-md border backdrop-blur-sm shadow-sm ${isDarkMode ? 'bg-slate-900/90 border-slate-700' : 'bg-white/90 border-slate-200'}`}>
+                    <span className="text-[9px] text-slate-400 font-mono mr-1">
+                        {selectedReadOnlyRegion.start.toFixed(2)}s - {selectedReadOnlyRegion.end.toFixed(2)}s
+                    </span>
+                    <span className="px-1.5 py-0.5 text-[9px] font-bold uppercase tracking-wider text-slate-400 max-w-[12rem] truncate">
+                        {selectedReadOnlyRegion.content}
+                    </span>
+                    <button
+                        onClick={() => onLoopRegion(selectedReadOnlyRegion)}
+                        title="Loop this Region"
+                        className={`p-1 text-slate-500 transition-colors ${isDarkMode ? 'hover:text-cyan-400' : 'hover:text-teal-600'}`}
+                    >
+                        <Repeat size={12} />
+                    </button>
+                    <button
+                        onClick={() => setSelectedRegionId(null)}
+                        title="Deselect"
+                        className="p-1 text-slate-500 hover:text-slate-300 transition-colors"
+                    >
+                        <X size={12} />
+                    </button>
+                </div>
+            )}
+
             {/* Clear Button / Upload Overlay */}
             <div className={`absolute top-2 right-2 z-50 pointer-events-auto transition-opacity duration-200 flex flex-col items-end space-y-2 ${isDraggingOver ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
                 <div className="w-64 scale-90 origin-top-right">
                     <LabelControlZone 
                         onRegionsLoaded={onRegionsLoaded}
-                        onClear={onClear}
+                        onClear={handleClear}
                         hasLabels={!!currentLabelFile}
                         currentLabelFile={currentLabelFile}
                     />
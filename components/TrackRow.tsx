@@ -44,8 +44,8 @@ export const TrackRow: React.FC<TrackRowProps> = ({
         )}
       </div>
 
-      {/* Viewport Column: Flex Grow */}
-      <div className={`flex-1 relative min-w-0 ${isDarkMode ? 'bg-slate-950/50' : 'bg-slate-50/50'}`} style={{ height }}>
+      {/* Viewport Column: Flex Grow (marked so wheel zoom / pan can find the pointer's place in the shared view) */}
+      <div data-track-viewport className={`flex-1 relative min-w-0 ${isDarkMode ? 'bg-slate-950/50' : 'bg-slate-50/50'}`} style={{ height }}>
         {children}
       </div>
     </div>
@@ -3,58 +3,60 @@ import React, { useRef, useState, useEffect } from 'react';
 // Imports from the import map
 import WaveSurfer from 'wavesurfer.js';
 import Spectrogram from 'wavesurfer.js/dist/plugins/spectrogram.esm.js';
+import RegionsPlugin from 'wavesurfer.js/dist/plugins/regions.esm.js';
+import { AIFilterConfig, TimeSelection, SeekRequest } from '../types';
+import { createFilterChainNodes, filterChainStructure, applyStageParams, activeStages, getLiveAudioContext } from '../utils/filterChain';
+import { decodeAudioUrl, getChannels } from '../utils/audioDecode';
+import { SpectrogramSettings, SPECTROGRAM_DEFAULTS, toSpectrogramOptions, isValidSpectrogramSettings, frequencyToSpectrogramY } from '../utils/spectrogramSettings';
+import { ContourPoint } from '../utils/wheezeDetector';
+import { SpectrogramSettingsPopover } from './SpectrogramSettingsPopover';
+import { Settings2 } from 'lucide-react';
 
 interface WaveformTrackProps {
   audioUrl: string;
   waveColor: string;
   progressColor: string;
   onReady?: (duration: number) => void;
-  seekTo?: number | null; 
+  seekTo?: SeekRequest | null;
   onSeek?: (time: number) => void;
   // Master Clock Props
   isPlaying: boolean;
   volume: number;
+  playbackRate?: number; // Pitch-preserving (slowed playback for crackle review)
   onTimeUpdate?: (time: number) => void; // Only provided if this track is the driver
   zoomLevel: number;
+  scrollTime?: number | null; // Left edge of the view (e.g. set from the overview); follows the playhead when null
+  liveFilter?: AIFilterConfig | null; // Real-time monitoring chain, applied to playback only (not the drawn waveform)
+  // Span selection (e.g. a noise profile): drag on the waveform while `isSelecting` is set
+  isSelecting?: boolean;
+  selection?: TimeSelection | null;
+  onSelectionChange?: (selection: TimeSelection) => void;
+  frequencyContours?: ContourPoint[][]; // Tracked tonal frequencies (e.g. wheezes), drawn over the spectrogram
   isDarkMode: boolean;
 }
 
-// Generate a Plasma-like colormap (Blue -> Purple -> Red -> Yellow)
-const getPlasmaColormap = () => {
-    const colors = [];
-    for (let i = 0; i < 256; i++) {
-        const t = i / 255;
-        let r = 0, g = 0, b = 0;
-
-        if (t < 0.25) {
-            // Blue -> Purple
-            const localT = t / 0.25;
-            r = Math.floor(128 * localT);
-            g = 0;
-            b = Math.floor(255 - (127 * localT));
-        } else if (t < 0.5) {
-            // Purple -> Red
-            const localT = (t - 0.25) / 0.25;
-            r = Math.floor(128 + (127 * localT));
-            g = 0;
-            b = Math.floor(128 - (128 * localT));
-        } else if (t < 0.75) {
-            // Red -> Orange
-            const localT = (t - 0.5) / 0.25;
-            r = 255;
-            g = Math.floor(165 * localT);
-            b = 0;
-        } else {
-            // Orange -> Yellow
-            const localT = (t - 0.75) / 0.25;
-            r = 255;
-            g = Math.floor(165 + (90 * localT));
-            b = 0;
-        }
-        colors.push([r / 255, g / 255, b / 255, 1]);
-    }
-    return colors;
-};
+// Playback routed through Web Audio: media element -> live chain -> output
+interface LiveGraph {
+  source: MediaElementAudioSourceNode;
+  nodes: AudioNode[];
+  structure: string;
+}
+
+const LIVE_PARAM_RAMP = 0.02; // Seconds
+const LINE_WAVEFORM_ZOOM = 1000; // Pixels per second
+const SELECTION_COLOR = 'rgba(56, 189, 248, 0.2)';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CONTOUR_COLOR = '#a3e635';
+
+const createSpectrogram = (settings: SpectrogramSettings, isDarkMode: boolean) =>
+  Spectrogram.create({
+    labels: true,
+    height: 140,
+    labelsColor: isDarkMode ? '#ffffff' : '#334155', // Adjust for theme
+    labelsBackground: isDarkMode ? 'rgba(2, 6, 23, 0.7)' : 'rgba(255, 255, 255, 0.8)',
+    ...toSpectrogramOptions(settings),
+  });
 
 export const WaveformTrack: React.FC<WaveformTrackProps> = ({
   audioUrl,
@@ -65,13 +67,32 @@ export const WaveformTrack: React.FC<WaveformTrackProps> = ({
   onSeek,
   isPlaying,
   volume,
+  playbackRate = 1,
   onTimeUpdate,
   zoomLevel,
+  scrollTime = null,
+  liveFilter,
+  isSelecting = false,
+  selection,
+  onSelectionChange,
+  frequencyContours,
   isDarkMode
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const regionsRef = useRef<RegionsPlugin | null>(null);
+  const spectrogramRef = useRef<ReturnType<typeof Spectrogram.create> | null>(null);
+  const liveGraphRef = useRef<LiveGraph | null>(null);
   const [isReady, setIsReady] = useState(false);
+  const [spectrogramSettings, setSpectrogramSettings] = useState<SpectrogramSettings>(SPECTROGRAM_DEFAULTS);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const appliedSettingsRef = useRef(spectrogramSettings); // What the current plugin instance was built with
+
+  // Latest callback without re-initializing WaveSurfer when the parent re-renders
+  const onSelectionChangeRef = useRef(onSelectionChange);
+  onSelectionChangeRef.current = onSelectionChange;
+  const onTimeUpdateRef = useRef(onTimeUpdate);
+  onTimeUpdateRef.current = onTimeUpdate;
 
   // Initialize WaveSurfer
   useEffect(() => {
@@ -81,6 +102,7 @@ export const WaveformTrack: React.FC<WaveformTrackProps> = ({
 
     let ws: WaveSurfer | null = null;
     let initTimer: number;
+    let isCancelled = false;
 
     const initWaveSurfer = (attempt = 1) => {
       try {
@@ -106,6 +128,11 @@ export const WaveformTrack: React.FC<WaveformTrackProps> = ({
           wavesurferRef.current = null;
         }
 
+        const regions = RegionsPlugin.create();
+        regionsRef.current = regions;
+        const spectrogram = createSpectrogram(appliedSettingsRef.current, isDarkMode);
+        spectrogramRef.current = spectrogram;
+
         ws = WaveSurfer.create({
           container: containerRef.current,
           waveColor: waveColor,
@@ -121,20 +148,31 @@ export const WaveformTrack: React.FC<WaveformTrackProps> = ({
           autoScroll: true,
           interact: true, 
           plugins: [
-            Spectrogram.create({
-              labels: true,
-              height: 140, 
-              labelsColor: isDarkMode ? '#ffffff' : '#334155', // Adjust for theme
-              labelsBackground: isDarkMode ? 'rgba(2, 6, 23, 0.7)' : 'rgba(255, 255, 255, 0.8)', 
-              frequencyMin: 0,
-              frequencyMax: 4000,
-              fftSamples: 1024,
-              colorMap: getPlasmaColormap(), 
-            }),
+            spectrogram,
+            regions,
           ],
         });
 
-        ws.load(audioUrl);
+        // A single selection: a new drag replaces the previous region
+        regions.on('region-created', (region) => {
+            regions.getRegions().forEach(r => { if (r !== region) r.remove(); });
+            onSelectionChangeRef.current?.({ start: region.start, end: region.end });
+        });
+        regions.on('region-updated', (region) => {
+            onSelectionChangeRef.current?.({ start: region.start, end: region.end });
+        });
+
+        // Draw from the shared decode instead of letting WaveSurfer fetch and decode on the main thread.
+        // WaveSurfer normalizes out-of-range data in place, so only a copy is handed over in that case.
+        const instance = ws;
+        decodeAudioUrl(audioUrl)
+          .then(buffer => {
+            if (isCancelled) return;
+            const channels = getChannels(buffer);
+            const isOutOfRange = channels.some(c => c.some(v => v > 1 || v < -1));
+            return instance.load(audioUrl, isOutOfRange ? channels.map(c => c.slice()) : channels, buffer.duration);
+          })
+          .catch(error => { if (!isCancelled) console.error(error); });
 
         ws.on('ready', () => {
           setIsReady(true);
@@ -144,14 +182,13 @@ export const WaveformTrack: React.FC<WaveformTrackProps> = ({
           
           // Apply initial volume/state
           ws!.setVolume(volume);
+          ws!.setPlaybackRate(playbackRate, true);
         });
 
         // If this track is the DRIVER, report time updates
-        if (onTimeUpdate) {
-            ws.on('timeupdate', (time) => {
-                onTimeUpdate(time);
-            });
-        }
+        ws.on('timeupdate', (time) => {
+            onTimeUpdateRef.current?.(time);
+        });
         
         // Report interactions (scrubbing)
         ws.on('interaction', () => {
@@ -169,23 +206,142 @@ export const WaveformTrack: React.FC<WaveformTrackProps> = ({
     initWaveSurfer(1);
 
     return () => {
+      isCancelled = true;
       window.clearTimeout(initTimer);
+      if (liveGraphRef.current) {
+        liveGraphRef.current.source.disconnect();
+        liveGraphRef.current.nodes.forEach(n => n.disconnect());
+        liveGraphRef.current = null;
+      }
       if (ws) ws.destroy();
       wavesurferRef.current = null;
+      regionsRef.current = null;
+      spectrogramRef.current = null;
     };
   }, [audioUrl, waveColor, progressColor, isDarkMode]); // Re-init on theme change to update Spectrogram config
 
   // Handle Zoom Changes dynamically
   useEffect(() => {
-    if (wavesurferRef.current && isReady) {
-        wavesurferRef.current.zoom(zoomLevel);
+    const ws = wavesurferRef.current;
+    if (ws && isReady) {
+        // Bars blur individual cycles at sample-level zoom, so draw the waveform as a line there
+        const hasBars = zoomLevel < LINE_WAVEFORM_ZOOM;
+        if (!!ws.options.barWidth !== hasBars) ws.setOptions({ barWidth: hasBars ? 2 : 0, barGap: hasBars ? 3 : 0 });
+        ws.zoom(zoomLevel);
     }
   }, [zoomLevel, isReady]);
 
+  // Scroll Sync: a fixed view stops auto-scrolling until it is released back to the playhead
+  useEffect(() => {
+    const ws = wavesurferRef.current;
+    if (!ws || !isReady) return;
+    const isFollowing = scrollTime === null;
+    if (ws.options.autoScroll !== isFollowing) ws.setOptions({ autoScroll: isFollowing });
+    if (!isFollowing) ws.setScrollTime(scrollTime);
+  }, [scrollTime, zoomLevel, isReady]);
+
+  // Spectrogram settings: swap the plugin instead of re-creating WaveSurfer (keeps the loaded audio)
+  useEffect(() => {
+      const ws = wavesurferRef.current;
+      if (!ws || !isReady || !isValidSpectrogramSettings(spectrogramSettings)) return;
+      if (spectrogramSettings === appliedSettingsRef.current) return;
+      appliedSettingsRef.current = spectrogramSettings;
+      spectrogramRef.current?.destroy();
+      spectrogramRef.current = ws.registerPlugin(createSpectrogram(spectrogramSettings, isDarkMode));
+  }, [spectrogramSettings, isReady]);
+
+  // Frequency contours: an SVG inside the spectrogram's wrapper (found through its labels canvas),
+  // so it scrolls and zooms with the spectrogram. Re-attached whenever the plugin is replaced.
+  useEffect(() => {
+      const ws = wavesurferRef.current;
+      if (!ws || !isReady || !frequencyContours || frequencyContours.length === 0) return;
+      const host = ws.getWrapper().querySelector('[part="spec-labels"]')?.parentElement;
+      const duration = ws.getDuration();
+      if (!host || !duration) return;
+
+      const svg = document.createElementNS(SVG_NS, 'svg');
+      svg.setAttribute('viewBox', `0 0 ${duration} 1`);
+      svg.setAttribute('preserveAspectRatio', 'none');
+      Object.assign(svg.style, { position: 'absolute', inset: '0', width: '100%', height: '100%', pointerEvents: 'none', zIndex: '8' });
+
+      frequencyContours.forEach(contour => {
+          const points = contour
+              .map(p => ({ x: p.time, y: frequencyToSpectrogramY(p.frequency, appliedSettingsRef.current) }))
+              .filter(p => p.y !== null)
+              .map(p => `${p.x},${p.y}`);
+          if (points.length < 2) return;
+          const line = document.createElementNS(SVG_NS, 'polyline');
+          line.setAttribute('points', points.join(' '));
+          line.setAttribute('fill', 'none');
+          line.setAttribute('stroke', CONTOUR_COLOR);
+          line.setAttribute('stroke-width', '2');
+          line.setAttribute('vector-effect', 'non-scaling-stroke');
+          svg.appendChild(line);
+      });
+
+      host.appendChild(svg);
+      return () => svg.remove();
+  }, [frequencyContours, isReady, spectrogramSettings]);
+
+  // Selection: drag-to-select only while selecting, so normal clicks keep scrubbing
+  useEffect(() => {
+      const regions = regionsRef.current;
+      if (!regions || !isReady || !isSelecting) return;
+      return regions.enableDragSelection({ color: SELECTION_COLOR });
+  }, [isSelecting, isReady]);
+
+  // Selection cleared (or restored) by the parent
+  useEffect(() => {
+      const regions = regionsRef.current;
+      if (!regions || !isReady) return;
+      const current = regions.getRegions()[0];
+      if (!selection) {
+          regions.clearRegions();
+      } else if (!current || current.start !== selection.start || current.end !== selection.end) {
+          regions.clearRegions();
+          regions.addRegion({ start: selection.start, end: selection.end, color: SELECTION_COLOR });
+      }
+  }, [selection, isReady]);
+
+  // Live Filter: route the media element through the chain. A media element can only be captured
+  // once, so after the first use the graph stays and an empty chain connects straight to the output.
+  useEffect(() => {
+      const ws = wavesurferRef.current;
+      if (!ws || !isReady) return;
+      if (!liveFilter && !liveGraphRef.current) return; // Never routed: keep the plain media element path
+
+      const ctx = getLiveAudioContext();
+      ctx.resume();
+      if (!liveGraphRef.current) {
+          liveGraphRef.current = { source: ctx.createMediaElementSource(ws.getMediaElement()), nodes: [], structure: '' };
+      }
+      const graph = liveGraphRef.current;
+      const config = liveFilter || null;
+      const structure = filterChainStructure(config);
+
+      // Same stages in the same order: only move the parameters (smoothly, this runs while dragging)
+      if (graph.nodes.length > 0 && structure === graph.structure) {
+          activeStages(config).forEach((stage, i) => applyStageParams(graph.nodes[i], stage, LIVE_PARAM_RAMP));
+          return;
+      }
+
+      graph.source.disconnect();
+      graph.nodes.forEach(n => n.disconnect());
+      graph.nodes = createFilterChainNodes(ctx, config);
+      graph.structure = structure;
+      if (graph.nodes.length > 0) {
+          graph.source.connect(graph.nodes[0]);
+          graph.nodes[graph.nodes.length - 1].connect(ctx.destination);
+      } else {
+          graph.source.connect(ctx.destination);
+      }
+  }, [liveFilter, isReady]);
+
   // Master Clock Sync: Play/Pause
   useEffect(() => {
       if (wavesurferRef.current && isReady) {
           if (isPlaying) {
+              if (liveGraphRef.current) getLiveAudioContext().resume();
               wavesurferRef.current.play();
           } else {
               wavesurferRef.current.pause();
@@ -200,14 +356,23 @@ export const WaveformTrack: React.FC<WaveformTrackProps> = ({
       }
   }, [volume, isReady]);
 
+  // Master Clock Sync: Playback Rate
+  useEffect(() => {
+      if (wavesurferRef.current && isReady) {
+          wavesurferRef.current.setPlaybackRate(playbackRate, true);
+      }
+  }, [playbackRate, isReady]);
+
   // Master Clock Sync: Seeking
   useEffect(() => {
-    if (seekTo !== undefined && seekTo !== null && wavesurferRef.current && isReady) {
+    if (seekTo && wavesurferRef.current && isReady) {
         // Only seek if the difference is significant (> 0.1s) to prevent jitter loops
         const current = wavesurferRef.current.getCurrentTime();
-        if (Math.abs(current - seekTo) > 0.15) {
-            wavesurferRef.current.setTime(seekTo);
+        if (Math.abs(current - seekTo.time) > 0.15) {
+            wavesurferRef.current.setTime(seekTo.time);
         }
+        // A loop that ends at the end of the file: the track stopped itself, so restart it
+        if (isPlaying && !wavesurferRef.current.isPlaying()) wavesurferRef.current.play();
     }
   }, [seekTo, isReady]);
 
@@ -233,6 +398,21 @@ export const WaveformTrack: React.FC<WaveformTrackProps> = ({
   return (
     <div className="w-full h-full relative group">
         <div ref={containerRef} className="wavesurfer-wrapper w-full h-full" />
+        <button
+            onClick={() => setIsSettingsOpen(!isSettingsOpen)}
+            title="Spectrogram Settings"
+            className={`absolute top-2 right-2 z-20 p-1 rounded transition-opacity ${isSettingsOpen ? 'hidden' : 'opacity-0 group-hover:opacity-100'} ${isDarkMode ? 'bg-slate-900/80 text-slate-400 hover:text-cyan-400' : 'bg-white/80 text-slate-500 hover:text-teal-600'}`}
+        >
+            <Settings2 size={14} />
+        </button>
+        {isSettingsOpen && (
+            <SpectrogramSettingsPopover
+                settings={spectrogramSettings}
+                onChange={setSpectrogramSettings}
+                onClose={() => setIsSettingsOpen(false)}
+                isDarkMode={isDarkMode}
+            />
+        )}
     </div>
   );
 };
\ No newline at end of file
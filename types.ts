@@ -4,6 +4,13 @@ export interface PatientContextData {
   location: string;  // Chest Location (e.g., Anterior Left)
   mode: string;      // Acquisition Mode (e.g., Single Channel)
   equipment: string; // Equipment (e.g., Meditron)
+  // Extended fields, filled from the ICBHI diagnosis / demographic tables when loaded
+  diagnosis?: string;   // e.g., COPD, URTI, Healthy
+  age?: string;         // Years
+  sex?: string;         // M / F
+  bmi?: string;         // Adults only (kg/m2)
+  childWeight?: string; // Children only (kg)
+  childHeight?: string; // Children only (cm)
 }
 
 export interface AudioFile {
@@ -14,18 +21,58 @@ export interface AudioFile {
   lastModified: number;
 }
 
+// One chest location of a multichannel (simultaneous) recording set
+export interface RecordingChannel {
+  id: string;        // Source file name
+  location: string;  // RecordingLocation value
+  file: AudioFile;
+}
+
+// One recording of the current examination (a patient's recordings across chest locations)
+export interface ExaminationRecording {
+  id: string;                    // Audio file name
+  location: string;              // RecordingLocation value
+  file: AudioFile;
+  labelFileName: string | null;
+  clinicalRegions: RegionData[];
+}
+
+// Outcome of loading user files (patient tables, an examination), shown next to the loader
+export interface FileLoadStatus {
+  text: string;
+  isError: boolean;
+}
+
 export interface AnalysisSession {
   id: string;
   date: string;
   patientId: string;
   fileName: string;
   resultSummary: string;
+  // Workspace state, restored when the session is reopened (the audio blob is stored separately)
+  patientData: PatientContextData;
+  clinicalRegions: RegionData[];
+  labelFileName: string | null;
+  aiTranscript: string;
+  aiFilterConfig: AIFilterConfig | null;
+  isFilterActive: boolean;
 }
 
-export interface AIFilterConfig {
-  type: 'lowpass' | 'highpass' | 'bandpass';
-  frequency: number;
+// One stage of the cleaning chain: any BiquadFilterNode type, or a plain gain stage
+export type FilterStageType = BiquadFilterType | 'gain';
+
+export interface FilterStage {
+  id: string;
+  type: FilterStageType;
+  frequency: number;  // Hz (ignored by gain stages)
   Q: number;
+  gain: number;       // dB (peaking / shelf / gain stages)
+  bypass: boolean;
+}
+
+// Ordered filter chain, applied first to last when rendering the cleaned track
+export interface AIFilterConfig {
+  stages: FilterStage[];
 }
 
 export interface RegionData {
@@ -36,6 +83,23 @@ export interface RegionData {
   color: string;
 }
 
+// A span of a recording picked on a waveform, in seconds
+export interface TimeSelection {
+  start: number;
+  end: number;
+}
+
+// A span replayed by the master clock (region, A-B selection or breath cycle)
+export interface PlaybackLoop extends TimeSelection {
+  label: string;  // e.g. "A-B", "Cycle 3", "Wheeze"
+}
+
+// A seek issued by the master clock. A new object per request, so seeking to the same time twice
+// (e.g. every pass of a loop) still re-syncs every track.
+export interface SeekRequest {
+  time: number;
+}
+
 export enum AnalysisStatus {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
@@ -0,0 +1,172 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { AIFilterConfig, RegionData } from '../types';
+import { normalizeFilterConfig } from './filterChain';
+
+// --- CONFIGURATION ---
+export const ACTIVE_MODEL_STRING = "gemini-3-pro-preview";
+
+// An analysis backend: takes the recording and returns the full diagnostic text.
+// `onText` receives the accumulated text as it streams so the UI can render it live.
+export interface AnalysisProvider {
+  id: string;
+  label: string;
+  analyze: (audio: Blob, options?: { onText?: (fullText: string) => void; onProgress?: (message: string) => void }) => Promise<string>;
+}
+
+// --- AI INFRASTRUCTURE SETUP ---
+const fileToGenerativePart = async (file: File | Blob): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      const base64Data = result.split(',')[1];
+      resolve({
+        inlineData: {
+          data: base64Data,
+          mimeType: file.type || 'audio/wav',
+        },
+      });
+    };
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(file);
+  });
+};
+
+const SYSTEM_INSTRUCTION = `You are a specialized Lung Sound Analyzer. You are expert at distinguishing the 'musical' quality of a wheeze from the 'scratchy' quality of friction. You prioritize finding pathology over dismissing data.
+
+**CRITICAL RULES:**
+1. **No Hallucinations:** Do NOT identify 'speech', 'voices', or 'talking' unless distinct, intelligible words are audible. Random broadband noise is NOT speech.
+2. **Noise Rejection:** Reject rhythmic thumping (heartbeats).
+3. **CONFIDENCE RULE:** If you detect a **continuous, musical, high-frequency sound (>400Hz)**, classify it as a **WHEEZE** with HIGH confidence. Musicality is rarely an artifact.
+4. **Frequency Awareness:** Be aware that this recording contains high-amplitude heartbeats (<150Hz). Do not confuse these rhythmic thumps with speech or lung pathology.
+
+**ANALYSIS PROTOCOL:**
+1. Quality Check: Briefly assess signal-to-noise ratio.
+2. Timeline Analysis: You MUST provide specific timestamps (e.g., '0:02 - 0:05') for the most distinct anomalies.
+3. Timestamp Precision: Only mark the *most intense* 0.5 - 1.0 second window of the anomaly. Do not label the entire breath cycle.
+4. Diagnosis: Brief, bulleted potential causes.
+5. Remediation Code: Based on the anomalies found (e.g., Low-frequency heartbeats or High-frequency hiss), generate a robust Python function using \`scipy.signal\` to filter this specific audio. Include comments explaining why you chose these cutoff frequencies. Label this section "Generated Research Tool: Audio Filter".
+6. Filter Parameters: You MUST output a JSON object at the very end of your response with the recommended cleaning chain, applied in order with Web Audio API BiquadFilterNodes (e.g. highpass for heart sounds, notch for mains hum, peaking cut for a resonance, lowpass for hiss). Format: {"recommendedFilter": {"stages": [{"type": "highpass" | "lowpass" | "bandpass" | "notch" | "peaking" | "lowshelf" | "highshelf" | "allpass" | "gain", "frequency": number, "Q": number, "gain": number}]}}. "gain" is in dB and only used by peaking, shelf and gain stages. Use only the stages the recording needs. Do not use markdown for this JSON block, just the raw JSON string at the end.`;
+
+const USER_PROMPT = "Analyze this raw audio. There is a confirmed respiratory pathology present. Locate the strongest example of it. Do not be overly cautious.";
+
+export const geminiProvider: AnalysisProvider = {
+  id: 'gemini',
+  label: `Gemini (${ACTIVE_MODEL_STRING})`,
+  analyze: async (audio, options = {}) => {
+    const genAI = new GoogleGenerativeAI(process.env.API_KEY || '');
+    const audioPart = await fileToGenerativePart(audio);
+
+    options.onProgress?.("Gemini 3 Pro is reasoning...");
+
+    const model = genAI.getGenerativeModel({
+        model: ACTIVE_MODEL_STRING,
+        systemInstruction: SYSTEM_INSTRUCTION
+    });
+
+    const result = await model.generateContentStream([
+        audioPart,
+        USER_PROMPT
+    ]);
+
+    options.onProgress?.("Receiving diagnostic stream...");
+
+    let fullResponse = "";
+    for await (const chunk of result.stream) {
+        const chunkText = chunk.text();
+        if (chunkText) {
+            fullResponse += chunkText;
+            options.onText?.(fullResponse);
+        }
+    }
+    return fullResponse;
+  }
+};
+
+// Offline stand-in with no network access: reports every recording as normal.
+// Useful to exercise batch runs and as the all-normal baseline (Sp = 100%, Se = 0%).
+export const offlineStubProvider: AnalysisProvider = {
+  id: 'offline-stub',
+  label: 'Offline Stub (All Normal)',
+  analyze: async (_audio, options = {}) => {
+    const text = `Quality Check: Offline stub, no model was queried.\nTimeline Analysis: No adventitious sounds reported.\n`;
+    options.onText?.(text);
+    return text;
+  }
+};
+
+export const ANALYSIS_PROVIDERS: AnalysisProvider[] = [geminiProvider, offlineStubProvider];
+
+// --- RESPONSE PARSING ---
+const FILTER_JSON_START_REGEX = /\{\s*"recommendedFilter"\s*:/;
+
+// Locate the complete {"recommendedFilter": ...} object by brace matching (the chain nests
+// objects inside an array, so a regex cannot find its end). Null while it is still streaming.
+const findRecommendedFilterJson = (text: string): { start: number; end: number } | null => {
+  const match = FILTER_JSON_START_REGEX.exec(text);
+  if (!match) return null;
+  let depth = 0;
+  for (let i = match.index; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return { start: match.index, end: i + 1 };
+  }
+  return null;
+};
+
+export const parseRecommendedFilter = (text: string): AIFilterConfig | null => {
+  const found = findRecommendedFilterJson(text);
+  if (!found) return null;
+  try {
+    const json = JSON.parse(text.slice(found.start, found.end));
+    return normalizeFilterConfig(json.recommendedFilter);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const stripRecommendedFilter = (text: string) => {
+  const found = findRecommendedFilterJson(text);
+  return found ? text.slice(0, found.start) + text.slice(found.end) : text;
+};
+
+// Extract "m:ss - m:ss" timestamp ranges as regions, classified by the finding named
+// on the same line as the timestamp (first mention wins).
+export const parseAIRegions = (text: string): RegionData[] => {
+  const regex = /(\d{1,2}):(\d{2}(?:\.\d{1,3})?)\s*(?:[-–—]|to)\s*(\d{1,2}):(\d{2}(?:\.\d{1,3})?)/gi;
+
+  let match;
+  const parsedRegions: RegionData[] = [];
+
+  while ((match = regex.exec(text)) !== null) {
+      const startMin = parseInt(match[1], 10);
+      const startSec = parseFloat(match[2]);
+      const endMin = parseInt(match[3], 10);
+      const endSec = parseFloat(match[4]);
+
+      const start = startMin * 60 + startSec;
+      const end = endMin * 60 + endSec;
+
+      if (end <= start) continue;
+
+      const id = `ai-region-${start}-${end}`;
+
+      const lineStart = text.lastIndexOf('\n', match.index) + 1;
+      const lineEnd = text.indexOf('\n', match.index);
+      const context = text.slice(lineStart, lineEnd === -1 ? undefined : lineEnd).toLowerCase();
+      const wheezeAt = context.indexOf('wheez');
+      const crackleAt = context.indexOf('crackl');
+      const finding = wheezeAt === -1 && crackleAt === -1 ? null
+          : (crackleAt === -1 || (wheezeAt !== -1 && wheezeAt < crackleAt)) ? 'Wheeze' : 'Crackle';
+
+      if (!parsedRegions.find(r => r.id === id)) {
+          parsedRegions.push({
+              id,
+              start,
+              end,
+              content: finding ? `AI ${finding}` : 'AI Diagnosis',
+              color: 'rgba(168, 85, 247, 0.9)'
+          });
+      }
+  }
+  return parsedRegions;
+};
@@ -0,0 +1,114 @@
+import { decodeWavInWorker } from './wavWorker';
+
+// --- LIMITS & SUPPORTED FORMATS ---
+export const MAX_FILE_SIZE_MB = 50;
+export const MAX_DURATION_MINUTES = 15;
+
+export const SUPPORTED_AUDIO_EXTENSIONS = ['.wav', '.flac', '.ogg', '.oga', '.opus', '.mp3', '.m4a'];
+export const AUDIO_FILE_ACCEPT = ['audio/*', ...SUPPORTED_AUDIO_EXTENSIONS].join(',');
+
+export const isSupportedAudioFile = (file: File) =>
+  file.type.startsWith('audio/') || SUPPORTED_AUDIO_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+// Null when the file can be loaded, otherwise the reason it can't
+export const checkAudioFileSize = (file: File) => {
+  const sizeMb = file.size / 1024 / 1024;
+  return sizeMb > MAX_FILE_SIZE_MB ? `${file.name} is ${sizeMb.toFixed(1)} MB (limit ${MAX_FILE_SIZE_MB} MB).` : null;
+};
+
+// --- AUDIO DECODING HELPERS ---
+export const getChannels = (buffer: AudioBuffer) =>
+  Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+export const createAudioBuffer = (channels: Float32Array[], sampleRate: number) => {
+  const buffer = new AudioBuffer({ length: channels[0].length, numberOfChannels: channels.length, sampleRate });
+  channels.forEach((data, i) => buffer.copyToChannel(data, i));
+  return buffer;
+};
+
+// WAV in the worker; FLAC/OGG/MP3 (or WAV encodings the worker does not handle) in the browser decoder
+const decodeBlob = async (blob: Blob): Promise<AudioBuffer> => {
+  const pcm = await decodeWavInWorker(await blob.arrayBuffer());
+  if (pcm) return createAudioBuffer(pcm.channels, pcm.sampleRate);
+
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  try {
+    return await audioContext.decodeAudioData(await blob.arrayBuffer());
+  } catch {
+    throw new Error(`Unsupported or corrupt audio (${blob.type || 'unknown type'}). Supported: ${SUPPORTED_AUDIO_EXTENSIONS.join(', ')}.`);
+  } finally {
+    audioContext.close();
+  }
+};
+
+// --- SHARED DECODE CACHE ---
+// Every consumer of a recording (waveform tracks, filter/heart/noise renderers, exports, the AI
+// uploader) goes through this cache, so each blob URL is fetched and decoded once.
+interface CachedAudio {
+  blob: Promise<Blob>;
+  buffer?: Promise<AudioBuffer>;
+  bytes: number;            // Blob + decoded samples, once each has resolved
+}
+
+// Least recently used entries are dropped beyond this; a 15 minute multichannel recording alone
+// decodes to a few hundred MB, so this is a budget in bytes rather than a count of recordings
+const MAX_CACHED_BYTES = 768 * 1024 * 1024;
+const audioCache = new Map<string, CachedAudio>();
+
+const evictCache = (keepUrl: string) => {
+  let total = [...audioCache.values()].reduce((sum, entry) => sum + entry.bytes, 0);
+  for (const [url, entry] of audioCache) {
+    if (total <= MAX_CACHED_BYTES) break;
+    if (url === keepUrl) continue;
+    audioCache.delete(url);
+    total -= entry.bytes;
+  }
+};
+
+const addCachedBytes = (url: string, entry: CachedAudio, bytes: number) => {
+  if (audioCache.get(url) !== entry) return;
+  entry.bytes += bytes;
+  evictCache(url);
+};
+
+const getCacheEntry = (url: string) => {
+  let entry = audioCache.get(url);
+  if (entry) {
+    // Most recently used last
+    audioCache.delete(url);
+    audioCache.set(url, entry);
+  } else {
+    const created: CachedAudio = { blob: fetch(url).then(response => response.blob()), bytes: 0 };
+    created.blob.then(blob => addCachedBytes(url, created, blob.size), () => { if (audioCache.get(url) === created) audioCache.delete(url); });
+    audioCache.set(url, created);
+    entry = created;
+  }
+  return entry;
+};
+
+// The recording's original bytes (e.g. for upload)
+export const getAudioBlob = (url: string) => getCacheEntry(url).blob;
+
+// Rejects recordings over the duration limit; a failed decode is not cached so it can be retried
+export const decodeAudioUrl = (url: string): Promise<AudioBuffer> => {
+  const entry = getCacheEntry(url);
+  if (!entry.buffer) {
+    entry.buffer = entry.blob.then(decodeBlob).then(buffer => {
+      if (buffer.duration > MAX_DURATION_MINUTES * 60) {
+        throw new Error(`Recording is ${(buffer.duration / 60).toFixed(1)} min long (limit ${MAX_DURATION_MINUTES} min).`);
+      }
+      return buffer;
+    });
+    entry.buffer.then(
+      buffer => addCachedBytes(url, entry, buffer.length * buffer.numberOfChannels * 4),
+      () => { if (audioCache.get(url) === entry) audioCache.delete(url); }
+    );
+  }
+  return entry.buffer;
+};
+
+// Drop a recording from the cache and free its blob URL
+export const revokeAudioUrl = (url: string) => {
+  audioCache.delete(url);
+  URL.revokeObjectURL(url);
+};
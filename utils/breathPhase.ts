@@ -0,0 +1,236 @@
+import { RegionData } from '../types';
+import { biquadCoefficients, filtfilt, mixToMono } from './dsp';
+import { regionClass } from './evaluation';
+import { isCycleRegion } from './labelFormats';
+
+// --- BREATH PHASE SEGMENTATION ---
+// Breath sounds are broadband noise above the heart band, so the smoothed band envelope rises
+// and falls with each phase of breathing. Loud stretches of the envelope become phase segments
+// (split at a clear dip when inspiration runs straight into expiration), and segments alternate
+// inspiration / expiration. Which parity is inspiration is decided by loudness: over a normal
+// chest wall, inspiration is louder than expiration. The alternation restarts after every long
+// pause, so a missed quiet phase (or a spurious split) only mislabels the stretch it is in.
+
+export type BreathPhase = 'inspiration' | 'expiration';
+
+export interface BreathPhaseOptions {
+  bandLowHz: number;         // Above S1/S2
+  bandHighHz: number;
+  smoothingMs: number;       // Moving-average width of the envelope
+  threshold: number;         // Position between the envelope floor (0) and its peaks (1)
+  minPhaseMs: number;        // Shorter segments are noise bursts
+  mergeGapMs: number;        // Shorter pauses do not end a segment
+  splitDipDb: number;        // Dip inside a segment that separates two phases
+  restartGapMs: number;      // Longer pauses restart the inspiration / expiration alternation
+}
+
+export const BREATH_PHASE_DEFAULTS: BreathPhaseOptions = {
+  bandLowHz: 200,
+  bandHighHz: 1000,
+  smoothingMs: 250,
+  threshold: 0.35,
+  minPhaseMs: 250,
+  mergeGapMs: 150,
+  splitDipDb: 4,
+  restartGapMs: 700
+};
+
+export const BREATH_PHASE_STYLES: Record<BreathPhase, { label: string; color: string }> = {
+  inspiration: { label: 'Inspiration', color: 'rgba(56, 189, 248, 0.35)' },
+  expiration: { label: 'Expiration', color: 'rgba(129, 140, 248, 0.35)' }
+};
+
+export interface BreathSegmentation {
+  regions: RegionData[];              // Content is the phase label ("Inspiration" / "Expiration")
+  respiratoryRate: number | null;     // Breaths per minute
+  ieRatio: number | null;             // Mean inspiration / mean expiration duration
+}
+
+const FRAME_MS = 20;
+
+// dB envelope per frame, smoothed with a centred moving average
+const bandEnvelope = (band: Float32Array, frame: number, smoothingFrames: number) => {
+  const energyDb = new Float64Array(Math.floor(band.length / frame));
+  for (let f = 0; f < energyDb.length; f++) {
+    let energy = 0;
+    for (let i = f * frame; i < (f + 1) * frame; i++) energy += band[i] * band[i];
+    energyDb[f] = 10 * Math.log10(energy / frame + 1e-12);
+  }
+  const half = Math.floor(smoothingFrames / 2);
+  const prefix = new Float64Array(energyDb.length + 1);
+  energyDb.forEach((v, i) => { prefix[i + 1] = prefix[i] + v; });
+  return energyDb.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(energyDb.length, i + half + 1);
+    return (prefix[to] - prefix[from]) / (to - from);
+  });
+};
+
+const percentile = (values: Float64Array, p: number) => {
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))] ?? 0;
+};
+
+const maxIn = (values: Float64Array, from: number, to: number) => {
+  let max = -Infinity;
+  for (let i = from; i < to; i++) max = Math.max(max, values[i]);
+  return max;
+};
+
+const meanIn = (values: Float64Array, from: number, to: number) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += values[i];
+  return sum / Math.max(1, to - from);
+};
+
+// Frame runs [start, end) above the threshold, close runs merged
+const findSegments = (envelope: Float64Array, threshold: number, mergeGapFrames: number) => {
+  const segments: { start: number; end: number }[] = [];
+  envelope.forEach((v, f) => {
+    if (v < threshold) return;
+    const last = segments[segments.length - 1];
+    if (last && f - last.end <= mergeGapFrames) last.end = f + 1;
+    else segments.push({ start: f, end: f + 1 });
+  });
+  return segments;
+};
+
+// Split a segment at its deepest interior dip when both sides rise clearly above it
+const splitAtDip = (envelope: Float64Array, segment: { start: number; end: number }, minFrames: number, dipDb: number) => {
+  let dip = -1;
+  for (let f = segment.start + minFrames; f < segment.end - minFrames; f++) {
+    if (dip < 0 || envelope[f] < envelope[dip]) dip = f;
+  }
+  if (dip < 0) return [segment];
+  const sides = Math.min(maxIn(envelope, segment.start, dip), maxIn(envelope, dip, segment.end));
+  return sides - envelope[dip] >= dipDb
+    ? [{ start: segment.start, end: dip }, { start: dip, end: segment.end }]
+    : [segment];
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+// Phase of each segment, decided per run of segments between long pauses: within a run the louder
+// parity is inspiration; a lone segment is inspiration when louder than the median segment.
+const assignPhases = (segments: { start: number; end: number }[], loudness: number[], restartFrames: number): BreathPhase[] => {
+  const median = [...loudness].sort((a, b) => a - b)[Math.floor(loudness.length / 2)];
+  const phases: BreathPhase[] = [];
+  let runStart = 0;
+  segments.forEach((segment, i) => {
+    const isRunEnd = i === segments.length - 1 || segments[i + 1].start - segment.end > restartFrames;
+    if (!isRunEnd) return;
+    const run = loudness.slice(runStart, i + 1);
+    const parityLoudness = [0, 1].map(parity => mean(run.filter((_, j) => j % 2 === parity)) ?? -Infinity);
+    const inspirationParity = run.length === 1
+      ? (run[0] >= median ? 0 : 1)
+      : (parityLoudness[1] > parityLoudness[0] ? 1 : 0);
+    run.forEach((_, j) => phases.push(j % 2 === inspirationParity ? 'inspiration' : 'expiration'));
+    runStart = i + 1;
+  });
+  return phases;
+};
+
+export const segmentBreathPhases = (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: BreathPhaseOptions = BREATH_PHASE_DEFAULTS
+): BreathSegmentation => {
+  const band = filtfilt(
+    filtfilt(mixToMono(channels), biquadCoefficients('highpass', options.bandLowHz, sampleRate)),
+    biquadCoefficients('lowpass', options.bandHighHz, sampleRate)
+  );
+  const frame = Math.max(1, Math.round(sampleRate * FRAME_MS / 1000));
+  const frameSeconds = frame / sampleRate;
+  const envelope = bandEnvelope(band, frame, Math.max(1, Math.round(options.smoothingMs / FRAME_MS)));
+  if (envelope.length === 0) return { regions: [], respiratoryRate: null, ieRatio: null };
+
+  const floor = percentile(envelope, 0.1);
+  const peak = percentile(envelope, 0.9);
+  const minFrames = Math.round(options.minPhaseMs / FRAME_MS);
+  const segments = findSegments(envelope, floor + options.threshold * (peak - floor), Math.round(options.mergeGapMs / FRAME_MS))
+    .flatMap(s => splitAtDip(envelope, s, minFrames, options.splitDipDb))
+    .filter(s => s.end - s.start >= minFrames);
+  if (segments.length === 0) return { regions: [], respiratoryRate: null, ieRatio: null };
+
+  const phases = assignPhases(
+    segments,
+    segments.map(s => meanIn(envelope, s.start, s.end)),
+    Math.round(options.restartGapMs / FRAME_MS)
+  );
+
+  const regions = segments.map((s, i) => {
+    const phase = phases[i];
+    return {
+      id: `detector-phase-${i}`,
+      start: s.start * frameSeconds,
+      end: s.end * frameSeconds,
+      content: BREATH_PHASE_STYLES[phase].label,
+      color: BREATH_PHASE_STYLES[phase].color
+    };
+  });
+
+  // Rate from the spacing of inspiration onsets; I:E from the mean phase durations
+  const inspirations = regions.filter(r => r.content === BREATH_PHASE_STYLES.inspiration.label);
+  const expirations = regions.filter(r => r.content === BREATH_PHASE_STYLES.expiration.label);
+  const breathPeriod = mean(inspirations.slice(1).map((r, i) => r.start - inspirations[i].start));
+  const meanInspiration = mean(inspirations.map(r => r.end - r.start));
+  const meanExpiration = mean(expirations.map(r => r.end - r.start));
+
+  return {
+    regions,
+    respiratoryRate: breathPeriod ? 60 / breathPeriod : null,
+    ieRatio: meanInspiration && meanExpiration ? meanInspiration / meanExpiration : null
+  };
+};
+
+// Conventional "1:2" notation (expiration relative to an inspiration of 1)
+export const formatIERatio = (ieRatio: number | null) => ieRatio ? `1:${(1 / ieRatio).toFixed(1)}` : '—';
+
+// --- PHASE-TIMED FINDINGS ---
+// Clinicians describe adventitious sounds by where they fall in the breath: "early inspiratory
+// crackles" (often obstructive disease) vs "late inspiratory crackles" (fibrosis, heart failure),
+// "expiratory wheeze" (asthma / COPD). Events are placed by their midpoint.
+export type PhaseTiming = 'early' | 'mid' | 'late';
+
+export interface PhaseFinding {
+  description: string;   // e.g. "Early inspiratory crackles"
+  count: number;
+  firstStart: number;    // Seconds, for seeking
+}
+
+const phaseOf = (region: RegionData): BreathPhase | null =>
+  region.content === BREATH_PHASE_STYLES.inspiration.label ? 'inspiration'
+    : region.content === BREATH_PHASE_STYLES.expiration.label ? 'expiration'
+    : null;
+
+export const locateInPhase = (event: RegionData, phaseRegions: RegionData[]): { phase: BreathPhase; timing: PhaseTiming } | null => {
+  const midpoint = (event.start + event.end) / 2;
+  const segment = phaseRegions.find(r => midpoint >= r.start && midpoint < r.end);
+  const phase = segment && phaseOf(segment);
+  if (!segment || !phase) return null;
+  const position = (midpoint - segment.start) / (segment.end - segment.start);
+  return { phase, timing: position < 1 / 3 ? 'early' : position < 2 / 3 ? 'mid' : 'late' };
+};
+
+// One line per (timing, phase, class), in order of first appearance. Crackles keep their timing
+// (it carries the diagnostic meaning); wheezes are reported by phase only.
+export const summarizePhaseFindings = (events: RegionData[], phaseRegions: RegionData[]): PhaseFinding[] => {
+  const findings = new Map<string, PhaseFinding>();
+  [...events]
+    .filter(r => !isCycleRegion(r))
+    .sort((a, b) => a.start - b.start)
+    .forEach(event => {
+      const cls = regionClass(event);
+      if (!cls) return;
+      const location = locateInPhase(event, phaseRegions);
+      const noun = cls === 'Crackle' ? 'crackles' : 'wheeze';
+      const description = !location
+        ? `${cls === 'Crackle' ? 'Crackles' : 'Wheeze'} outside detected phases`
+        : `${cls === 'Crackle' ? `${location.timing[0].toUpperCase()}${location.timing.slice(1)} ` : ''}${location.phase === 'inspiration' ? 'inspiratory' : 'expiratory'} ${noun}`;
+      const capitalized = description[0].toUpperCase() + description.slice(1);
+      const existing = findings.get(capitalized);
+      if (existing) existing.count++;
+      else findings.set(capitalized, { description: capitalized, count: 1, firstStart: event.start });
+    });
+  return [...findings.values()];
+};
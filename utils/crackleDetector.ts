@@ -0,0 +1,117 @@
+import { RegionData } from '../types';
+import { biquadCoefficients, filtfilt, mixToMono } from './dsp';
+import { annotationColor } from './labelFormats';
+
+// --- CRACKLE DETECTOR ---
+// Deterministic baseline: crackles are short (roughly 5-20 ms) explosive transients in the
+// 100-2000 Hz band. Frames of the band-passed signal whose energy jumps well above the local
+// background are grouped into transients, and runs of several transients become one region.
+// The same input always gives the same regions, so results can be compared across versions.
+
+export interface CrackleDetectorOptions {
+  bandLowHz: number;
+  bandHighHz: number;
+  thresholdDb: number;       // Frame energy above the local background (and the recording median)
+  maxTransientMs: number;    // Longer bursts are breath noise, friction or heart sounds
+  clusterGapMs: number;      // Transients closer than this belong to one region
+  minTransients: number;     // Per region; isolated clicks are usually artifacts
+}
+
+export const CRACKLE_DETECTOR_DEFAULTS: CrackleDetectorOptions = {
+  bandLowHz: 150,
+  bandHighHz: 2000,
+  thresholdDb: 9,
+  maxTransientMs: 25,
+  clusterGapMs: 300,
+  minTransients: 3
+};
+
+export interface CrackleDetection {
+  regions: RegionData[];
+  transients: number;        // Individual crackle candidates, including those not in a region
+}
+
+const FRAME_MS = 2.5;
+const BACKGROUND_MS = 200;   // Half-width of the local background window
+const REGION_PAD_MS = 20;
+
+// Mean log energy over [i - half, i + half], via prefix sums
+const movingAverage = (values: Float64Array, half: number) => {
+  const prefix = new Float64Array(values.length + 1);
+  values.forEach((v, i) => { prefix[i + 1] = prefix[i] + v; });
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length, i + half + 1);
+    return (prefix[to] - prefix[from]) / (to - from);
+  });
+};
+
+const median = (values: Float64Array) => {
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+export const detectCrackles = (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: CrackleDetectorOptions = CRACKLE_DETECTOR_DEFAULTS
+): CrackleDetection => {
+  const band = filtfilt(
+    filtfilt(mixToMono(channels), biquadCoefficients('highpass', options.bandLowHz, sampleRate)),
+    biquadCoefficients('lowpass', options.bandHighHz, sampleRate)
+  );
+
+  // Log energy per frame
+  const frame = Math.max(1, Math.round(sampleRate * FRAME_MS / 1000));
+  const frameSeconds = frame / sampleRate;
+  const energyDb = new Float64Array(Math.floor(band.length / frame));
+  for (let f = 0; f < energyDb.length; f++) {
+    let energy = 0;
+    for (let i = f * frame; i < (f + 1) * frame; i++) energy += band[i] * band[i];
+    energyDb[f] = 10 * Math.log10(energy / frame + 1e-12);
+  }
+  if (energyDb.length === 0) return { regions: [], transients: 0 };
+
+  const background = movingAverage(energyDb, Math.round(BACKGROUND_MS / FRAME_MS));
+  const floor = median(energyDb) + options.thresholdDb;
+
+  // Runs of loud frames that stay short enough to be a crackle
+  const transients: { start: number; end: number }[] = [];
+  let runStart = -1;
+  for (let f = 0; f <= energyDb.length; f++) {
+    const isLoud = f < energyDb.length && energyDb[f] > floor && energyDb[f] - background[f] > options.thresholdDb;
+    if (isLoud && runStart < 0) runStart = f;
+    if (!isLoud && runStart >= 0) {
+      const start = runStart * frameSeconds;
+      const end = f * frameSeconds;
+      if ((end - start) * 1000 <= options.maxTransientMs) transients.push({ start, end });
+      runStart = -1;
+    }
+  }
+
+  // Cluster neighbouring transients into regions
+  const clusters: { start: number; end: number; count: number }[] = [];
+  transients.forEach(t => {
+    const last = clusters[clusters.length - 1];
+    if (last && t.start - last.end <= options.clusterGapMs / 1000) {
+      last.end = t.end;
+      last.count++;
+    } else {
+      clusters.push({ ...t, count: 1 });
+    }
+  });
+
+  const duration = band.length / sampleRate;
+  const pad = REGION_PAD_MS / 1000;
+  const regions = clusters
+    .filter(c => c.count >= options.minTransients)
+    .map((c, i) => ({
+      id: `detector-crackle-${i}`,
+      start: Math.max(0, c.start - pad),
+      end: Math.min(duration, c.end + pad),
+      content: 'Crackle',
+      color: annotationColor('Crackle')
+    }));
+
+  return { regions, transients: transients.length };
+};
@@ -0,0 +1,71 @@
+// --- SHARED DSP HELPERS ---
+// Plain-JS filters and FFT for the offline analyses (heart sounds, denoising, detectors), so they
+// run on decoded channel data without an OfflineAudioContext.
+
+export interface BiquadCoefficients {
+  b0: number; b1: number; b2: number; a1: number; a2: number;
+}
+
+// RBJ cookbook low/high-pass, normalized by a0
+export const biquadCoefficients = (type: 'lowpass' | 'highpass', frequency: number, sampleRate: number, Q = Math.SQRT1_2): BiquadCoefficients => {
+  const w0 = 2 * Math.PI * Math.min(frequency, sampleRate / 2 - 1) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Q);
+  const a0 = 1 + alpha;
+  const b1 = type === 'lowpass' ? 1 - cos : -(1 + cos);
+  const b0 = type === 'lowpass' ? b1 / 2 : -b1 / 2;
+  return { b0: b0 / a0, b1: b1 / a0, b2: b0 / a0, a1: (-2 * cos) / a0, a2: (1 - alpha) / a0 };
+};
+
+export const applyBiquad = (input: Float32Array, c: BiquadCoefficients) => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = c.b0 * x + c.b1 * x1 + c.b2 * x2 - c.a1 * y1 - c.a2 * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+// Forward-backward filtering: zero phase, so the band can be subtracted from the original
+export const filtfilt = (input: Float32Array, c: BiquadCoefficients) =>
+  applyBiquad(applyBiquad(input, c).reverse(), c).reverse();
+
+export const mixToMono = (channels: Float32Array[]) => {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  channels.forEach(channel => channel.forEach((v, i) => { mono[i] += v / channels.length; }));
+  return mono;
+};
+
+// In-place iterative radix-2 FFT (inverse when `inverse` is set, unscaled)
+export const fft = (re: Float64Array, im: Float64Array, inverse = false) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / size;
+    const wRe = Math.cos(angle), wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1, curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k, b = a + size / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe; im[b] = im[a] - tIm;
+        re[a] += tRe; im[a] += tIm;
+        [curRe, curIm] = [curRe * wRe - curIm * wIm, curRe * wIm + curIm * wRe];
+      }
+    }
+  }
+};
@@ -0,0 +1,196 @@
+import { RegionData } from '../types';
+import { ClinicalClass, isCycleRegion } from './labelFormats';
+
+// Agreement between reference (clinical) regions and predicted (Gemini / detector) regions.
+// "All" ignores the class, the other scopes only compare regions of one class.
+export type EvaluationScope = 'All' | ClinicalClass;
+
+export const EVALUATION_SCOPES: EvaluationScope[] = ['All', 'Wheeze', 'Crackle'];
+
+export type EventOutcome = 'tp' | 'fn' | 'fp';
+
+export interface EventMetrics {
+    tp: number;
+    fp: number;
+    fn: number;
+    precision: number | null;
+    recall: number | null;
+    f1: number | null;
+}
+
+export interface ScopeAgreement {
+    scope: EvaluationScope;
+    iou: number | null;                       // Temporal IoU of the merged region sets
+    events: EventMetrics;                     // Event-level matching at the overlap threshold
+    outcomes: Record<string, EventOutcome>;   // Region id -> outcome, for timeline highlighting
+}
+
+export interface CycleScore {
+    cycles: number;
+    abnormalCycles: number;
+    correctAbnormal: number;     // Abnormal cycles whose class was predicted exactly
+    correctNormal: number;       // Normal cycles with no prediction overlapping them
+    sensitivity: number | null;  // (Pc + Pw + Pb) / (Nc + Nw + Nb)
+    specificity: number | null;  // Pn / Nn
+    score: number | null;        // (Se + Sp) / 2
+}
+
+export interface AgreementReport {
+    scopes: Record<EvaluationScope, ScopeAgreement>;
+    cycles: CycleScore | null;   // Only available when the reference labels carry cycles
+}
+
+interface Interval {
+    start: number;
+    end: number;
+}
+
+// Class of a region from its content ("Wheeze", "Crackle"), null when unclassified
+export const regionClass = (region: RegionData): ClinicalClass | null => {
+    const content = region.content.toLowerCase();
+    if (content.includes('wheeze')) return 'Wheeze';
+    if (content.includes('crackle')) return 'Crackle';
+    return null;
+};
+
+const intersection = (a: Interval, b: Interval) => Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+// Overlap relative to the shorter of the two events, so a short AI window that sits
+// entirely inside a long clinical label counts as a full match.
+export const overlapRatio = (a: Interval, b: Interval) => {
+    const shorter = Math.min(a.end - a.start, b.end - b.start);
+    return shorter > 0 ? intersection(a, b) / shorter : 0;
+};
+
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+    const sorted = [...intervals].sort((a, b) => a.start - b.start);
+    const merged: Interval[] = [];
+    sorted.forEach(i => {
+        const last = merged[merged.length - 1];
+        if (last && i.start <= last.end) last.end = Math.max(last.end, i.end);
+        else merged.push({ start: i.start, end: i.end });
+    });
+    return merged;
+};
+
+const totalLength = (intervals: Interval[]) => intervals.reduce((sum, i) => sum + (i.end - i.start), 0);
+
+export const temporalIoU = (reference: Interval[], predicted: Interval[]): number | null => {
+    const ref = mergeIntervals(reference);
+    const pred = mergeIntervals(predicted);
+    const inter = ref.reduce((sum, r) => sum + pred.reduce((s, p) => s + intersection(r, p), 0), 0);
+    const union = totalLength(ref) + totalLength(pred) - inter;
+    return union > 0 ? inter / union : null;
+};
+
+const ratio = (num: number, den: number) => den > 0 ? num / den : null;
+
+export const eventMetrics = (tp: number, fp: number, fn: number): EventMetrics => {
+    const precision = ratio(tp, tp + fp);
+    const recall = ratio(tp, tp + fn);
+    const f1 = precision !== null && recall !== null && precision + recall > 0
+        ? (2 * precision * recall) / (precision + recall)
+        : (tp + fp + fn > 0 ? 0 : null);
+    return { tp, fp, fn, precision, recall, f1 };
+};
+
+// Greedy one-to-one matching, best overlapping pairs first
+const matchEvents = (reference: RegionData[], predicted: RegionData[], threshold: number) => {
+    const pairs: { ref: RegionData; pred: RegionData; overlap: number }[] = [];
+    reference.forEach(ref => predicted.forEach(pred => {
+        const overlap = overlapRatio(ref, pred);
+        if (overlap > 0 && overlap >= threshold) pairs.push({ ref, pred, overlap });
+    }));
+    pairs.sort((a, b) => b.overlap - a.overlap);
+
+    const matchedRefs = new Set<string>();
+    const matchedPreds = new Set<string>();
+    pairs.forEach(({ ref, pred }) => {
+        if (matchedRefs.has(ref.id) || matchedPreds.has(pred.id)) return;
+        matchedRefs.add(ref.id);
+        matchedPreds.add(pred.id);
+    });
+
+    const outcomes: Record<string, EventOutcome> = {};
+    reference.forEach(r => { outcomes[r.id] = matchedRefs.has(r.id) ? 'tp' : 'fn'; });
+    predicted.forEach(p => { outcomes[p.id] = matchedPreds.has(p.id) ? 'tp' : 'fp'; });
+
+    return { outcomes, tp: matchedRefs.size, fp: predicted.length - matchedPreds.size, fn: reference.length - matchedRefs.size };
+};
+
+const evaluateScope = (scope: EvaluationScope, reference: RegionData[], predicted: RegionData[], threshold: number): ScopeAgreement => {
+    // Unclassified predictions can match any class, classified ones only their own
+    const ref = scope === 'All' ? reference : reference.filter(r => regionClass(r) === scope);
+    const pred = scope === 'All' ? predicted : predicted.filter(p => {
+        const cls = regionClass(p);
+        return cls === scope || cls === null;
+    });
+
+    const { outcomes, tp, fp, fn } = matchEvents(ref, pred, threshold);
+    return { scope, iou: temporalIoU(ref, pred), events: eventMetrics(tp, fp, fn), outcomes };
+};
+
+type CycleLabel = 'normal' | 'crackle' | 'wheeze' | 'both' | 'unknown';
+
+const cycleLabel = (classes: Set<ClinicalClass | null>): CycleLabel => {
+    if (classes.has(null)) return 'unknown';
+    if (classes.has('Crackle') && classes.has('Wheeze')) return 'both';
+    if (classes.has('Crackle')) return 'crackle';
+    if (classes.has('Wheeze')) return 'wheeze';
+    return 'normal';
+};
+
+const cycleScoreFromCounts = (cycles: number, abnormalCycles: number, correctAbnormal: number, correctNormal: number): CycleScore => {
+    const sensitivity = ratio(correctAbnormal, abnormalCycles);
+    const specificity = ratio(correctNormal, cycles - abnormalCycles);
+    const score = sensitivity !== null && specificity !== null ? (sensitivity + specificity) / 2 : (sensitivity ?? specificity);
+    return { cycles, abnormalCycles, correctAbnormal, correctNormal, sensitivity, specificity, score };
+};
+
+// ICBHI 2017 challenge scoring: each reference cycle is classified from the predictions
+// overlapping it. Predictions without a class count as abnormal but never as a correct class.
+export const scoreCycles = (reference: RegionData[], predicted: RegionData[], threshold: number): CycleScore | null => {
+    const cycles = reference.filter(isCycleRegion).sort((a, b) => a.start - b.start);
+    if (cycles.length === 0) return null;
+    const events = reference.filter(r => !isCycleRegion(r));
+
+    let abnormal = 0, correctAbnormal = 0, correctNormal = 0;
+
+    cycles.forEach(cycle => {
+        const truth = cycleLabel(new Set(events
+            .filter(e => { const mid = (e.start + e.end) / 2; return mid >= cycle.start && mid < cycle.end; })
+            .map(regionClass)
+            .filter((c): c is ClinicalClass => c !== null)));
+        const guess = cycleLabel(new Set(predicted
+            .filter(p => overlapRatio(p, cycle) > 0 && overlapRatio(p, cycle) >= threshold)
+            .map(regionClass)));
+
+        if (truth === 'normal') {
+            if (guess === 'normal') correctNormal++;
+        } else {
+            abnormal++;
+            if (guess === truth) correctAbnormal++;
+        }
+    });
+
+    return cycleScoreFromCounts(cycles.length, abnormal, correctAbnormal, correctNormal);
+};
+
+// Pool cycle counts across recordings (ICBHI scores are computed over all test cycles, not averaged per file)
+export const combineCycleScores = (scores: CycleScore[]): CycleScore | null => {
+    if (scores.length === 0) return null;
+    const sum = (key: keyof Pick<CycleScore, 'cycles' | 'abnormalCycles' | 'correctAbnormal' | 'correctNormal'>) =>
+        scores.reduce((total, s) => total + s[key], 0);
+    return cycleScoreFromCounts(sum('cycles'), sum('abnormalCycles'), sum('correctAbnormal'), sum('correctNormal'));
+};
+
+export const evaluateAgreement = (clinical: RegionData[], predicted: RegionData[], threshold: number): AgreementReport => {
+    const reference = clinical.filter(r => !isCycleRegion(r));
+    const scopes = Object.fromEntries(
+        EVALUATION_SCOPES.map(scope => [scope, evaluateScope(scope, reference, predicted, threshold)])
+    ) as Record<EvaluationScope, ScopeAgreement>;
+
+    return { scopes, cycles: scoreCycles(clinical, predicted, threshold) };
+};
+
+export const formatMetric = (value: number | null) => value === null ? '—' : `${(value * 100).toFixed(1)}%`;
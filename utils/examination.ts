@@ -0,0 +1,82 @@
+import { ExaminationRecording, RegionData, RecordingLocation } from '../types';
+import { regionClass } from './evaluation';
+import { parseLabelString, isCycleRegion } from './labelFormats';
+import { pairRecordingFiles, parseICBHIMetadata } from './icbhi';
+
+// Overall finding for one auscultation site
+export type SiteFinding = 'normal' | 'wheeze' | 'crackle' | 'both' | 'abnormal';
+
+export interface SiteFindingSummary {
+  finding: SiteFinding;
+  source: 'labels' | 'ai';
+}
+
+export const SITE_FINDING_STYLES: Record<SiteFinding, { label: string; color: string }> = {
+  normal: { label: 'Normal', color: 'rgb(16, 185, 129)' },
+  wheeze: { label: 'Wheeze', color: 'rgb(239, 68, 68)' },
+  crackle: { label: 'Crackle', color: 'rgb(234, 179, 8)' },
+  both: { label: 'Wheeze + Crackle', color: 'rgb(249, 115, 22)' },
+  abnormal: { label: 'Unclassified Anomaly', color: 'rgb(168, 85, 247)' }
+};
+
+// Cycles carry no finding; an AI region without a class still marks the site as abnormal
+export const summarizeFindings = (regions: RegionData[]): SiteFinding => {
+  const events = regions.filter(r => !isCycleRegion(r));
+  const hasWheeze = events.some(r => regionClass(r) === 'Wheeze');
+  const hasCrackle = events.some(r => regionClass(r) === 'Crackle');
+  if (hasWheeze && hasCrackle) return 'both';
+  if (hasWheeze) return 'wheeze';
+  if (hasCrackle) return 'crackle';
+  return events.length > 0 ? 'abnormal' : 'normal';
+};
+
+// Clinical labels take precedence; AI regions are used for sites that were analyzed but not labeled.
+// `aiRegions` is undefined when the recording has not been analyzed.
+export const summarizeSite = (clinicalRegions: RegionData[], aiRegions?: RegionData[]): SiteFindingSummary | null => {
+  if (clinicalRegions.length > 0) return { finding: summarizeFindings(clinicalRegions), source: 'labels' };
+  if (aiRegions) return { finding: summarizeFindings(aiRegions), source: 'ai' };
+  return null;
+};
+
+// Build an examination from dropped recordings (and their ICBHI label files).
+// Only the first patient's recordings are kept; the names of everything else are returned as ignored.
+export const buildExamination = async (files: File[]): Promise<{ recordings: ExaminationRecording[]; ignored: string[] }> => {
+  const { pairs, unsupported, orphanLabels } = pairRecordingFiles(files);
+  const patientId = pairs.find(p => p.metadata)?.metadata?.id;
+  const ignored = [...unsupported, ...orphanLabels];
+  const recordings: ExaminationRecording[] = [];
+
+  for (const pair of pairs) {
+    if (patientId && pair.metadata?.id !== patientId) {
+      ignored.push(pair.audio.name);
+      continue;
+    }
+    // Unreadable labels: the recording still loads, unlabeled, and the label file is reported
+    let clinicalRegions: RegionData[] = [];
+    let labelFileName = pair.labels ? pair.labels.name : null;
+    if (pair.labels) {
+      try {
+        clinicalRegions = parseLabelString(await pair.labels.text());
+      } catch (error) {
+        console.error(error);
+        ignored.push(`${pair.labels.name} (unreadable)`);
+        labelFileName = null;
+      }
+    }
+    recordings.push({
+      id: pair.audio.name,
+      location: parseICBHIMetadata(pair.audio.name)?.location || RecordingLocation.UNKNOWN,
+      file: {
+        name: pair.audio.name,
+        size: pair.audio.size,
+        type: pair.audio.type,
+        lastModified: pair.audio.lastModified,
+        url: URL.createObjectURL(pair.audio)
+      },
+      labelFileName,
+      clinicalRegions
+    });
+  }
+
+  return { recordings, ignored };
+};
@@ -0,0 +1,132 @@
+import { AIFilterConfig, FilterStage, FilterStageType } from '../types';
+
+// Which parameters each stage type uses (mirrors the BiquadFilterNode spec)
+export const FILTER_STAGE_TYPES: Record<FilterStageType, { label: string; usesFrequency: boolean; usesQ: boolean; usesGain: boolean }> = {
+  highpass: { label: 'High-pass', usesFrequency: true, usesQ: true, usesGain: false },
+  lowpass: { label: 'Low-pass', usesFrequency: true, usesQ: true, usesGain: false },
+  bandpass: { label: 'Band-pass', usesFrequency: true, usesQ: true, usesGain: false },
+  notch: { label: 'Notch', usesFrequency: true, usesQ: true, usesGain: false },
+  peaking: { label: 'Peaking', usesFrequency: true, usesQ: true, usesGain: true },
+  lowshelf: { label: 'Low Shelf', usesFrequency: true, usesQ: false, usesGain: true },
+  highshelf: { label: 'High Shelf', usesFrequency: true, usesQ: false, usesGain: true },
+  allpass: { label: 'All-pass', usesFrequency: true, usesQ: true, usesGain: false },
+  gain: { label: 'Gain', usesFrequency: false, usesQ: false, usesGain: true },
+};
+
+const STAGE_DEFAULTS: Record<FilterStageType, { frequency: number; Q: number; gain: number }> = {
+  highpass: { frequency: 100, Q: 0.707, gain: 0 },
+  lowpass: { frequency: 2000, Q: 0.707, gain: 0 },
+  bandpass: { frequency: 600, Q: 1, gain: 0 },
+  notch: { frequency: 50, Q: 30, gain: 0 },
+  peaking: { frequency: 1000, Q: 2, gain: -6 },
+  lowshelf: { frequency: 200, Q: 1, gain: -6 },
+  highshelf: { frequency: 3000, Q: 1, gain: -6 },
+  allpass: { frequency: 1000, Q: 1, gain: 0 },
+  gain: { frequency: 0, Q: 1, gain: 0 },
+};
+
+let stageCounter = 0;
+
+export const createFilterStage = (type: FilterStageType, overrides: Partial<FilterStage> = {}): FilterStage => ({
+  id: `stage-${Date.now()}-${stageCounter++}`,
+  type,
+  ...STAGE_DEFAULTS[type],
+  bypass: false,
+  ...overrides
+});
+
+const isStageType = (value: unknown): value is FilterStageType =>
+  typeof value === 'string' && value in FILTER_STAGE_TYPES;
+
+const finiteOr = (value: unknown, fallback: number) => typeof value === 'number' && isFinite(value) ? value : fallback;
+
+// Accepts a chain ({ stages: [...] }) or the older single-biquad config ({ type, frequency, Q }),
+// e.g. from a model response or a session saved before chains existed. Unknown stage types are dropped.
+export const normalizeFilterConfig = (raw: any): AIFilterConfig | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const rawStages: any[] = Array.isArray(raw.stages) ? raw.stages : [raw];
+  const stages = rawStages
+    .filter(stage => stage && isStageType(stage.type))
+    .map(stage => {
+      const defaults = STAGE_DEFAULTS[stage.type as FilterStageType];
+      return createFilterStage(stage.type, {
+        frequency: finiteOr(stage.frequency, defaults.frequency),
+        Q: finiteOr(stage.Q, defaults.Q),
+        gain: finiteOr(stage.gain, defaults.gain),
+        bypass: stage.bypass === true
+      });
+    });
+  return stages.length > 0 ? { stages } : null;
+};
+
+export const activeStages = (config: AIFilterConfig | null) => config ? config.stages.filter(s => !s.bypass) : [];
+
+// Set a node's parameters from its stage. With `rampTime` the change is smoothed
+// (live monitoring, to avoid zipper noise while a value is dragged).
+export const applyStageParams = (node: AudioNode, stage: FilterStage, rampTime = 0) => {
+  const set = (param: AudioParam, value: number) => {
+    if (rampTime > 0) param.setTargetAtTime(value, node.context.currentTime, rampTime);
+    else param.value = value;
+  };
+  if (node instanceof GainNode) {
+    set(node.gain, Math.pow(10, stage.gain / 20));
+  } else if (node instanceof BiquadFilterNode) {
+    set(node.frequency, stage.frequency);
+    set(node.Q, stage.Q);
+    set(node.gain, stage.gain);
+  }
+};
+
+const createStageNode = (ctx: BaseAudioContext, stage: FilterStage): AudioNode => {
+  let node: AudioNode;
+  if (stage.type === 'gain') {
+    node = ctx.createGain();
+  } else {
+    const filter = ctx.createBiquadFilter();
+    filter.type = stage.type;
+    node = filter;
+  }
+  applyStageParams(node, stage);
+  return node;
+};
+
+// Create the nodes of the active stages, connected to each other in order (not to a source or output)
+export const createFilterChainNodes = (ctx: BaseAudioContext, config: AIFilterConfig | null): AudioNode[] => {
+  const nodes = activeStages(config).map(stage => createStageNode(ctx, stage));
+  nodes.forEach((node, i) => { if (i > 0) nodes[i - 1].connect(node); });
+  return nodes;
+};
+
+// Two chains with the same structure can share nodes and only differ in parameter values
+export const filterChainStructure = (config: AIFilterConfig | null) => activeStages(config).map(s => s.type).join('>');
+
+// Wire the active stages in order after `source`; returns the last node of the chain
+export const connectFilterChain = (ctx: BaseAudioContext, source: AudioNode, config: AIFilterConfig): AudioNode => {
+  const nodes = createFilterChainNodes(ctx, config);
+  if (nodes.length === 0) return source;
+  source.connect(nodes[0]);
+  return nodes[nodes.length - 1];
+};
+
+export const describeFilterStage = (stage: FilterStage) => {
+  const info = FILTER_STAGE_TYPES[stage.type];
+  const parts: string[] = [stage.type];
+  if (info.usesFrequency) parts.push(`${Math.round(stage.frequency)}Hz`);
+  if (info.usesGain) parts.push(`${stage.gain > 0 ? '+' : ''}${stage.gain}dB`);
+  return parts.join(' ');
+};
+
+// e.g. "highpass 100Hz → notch 50Hz → lowpass 2000Hz"
+export const describeFilterChain = (config: AIFilterConfig | null) => {
+  const stages = activeStages(config);
+  return stages.length > 0 ? stages.map(describeFilterStage).join(' → ') : 'No active stages';
+};
+
+// One real-time context shared by every track routed through a live chain
+// (browsers cap the number of concurrent AudioContexts).
+let liveAudioContext: AudioContext | null = null;
+
+export const getLiveAudioContext = () => {
+  if (!liveAudioContext) liveAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+  return liveAudioContext;
+};
@@ -0,0 +1,116 @@
+import { biquadCoefficients, filtfilt, mixToMono } from './dsp';
+
+// --- HEART SOUND SUPPRESSION ---
+// S1/S2 events are found on the Shannon energy envelope of the low band (where heart sounds
+// dominate), then only the low band is attenuated inside those events. Lung sounds above the
+// cutoff are never touched, and below it they are kept everywhere outside the heart sounds.
+
+export interface HeartSoundEvent {
+  start: number;  // Seconds
+  end: number;
+}
+
+export interface HeartSuppressionOptions {
+  cutoffHz: number;       // Upper edge of the heart band
+  attenuationDb: number;  // How much of the heart band is removed inside an event
+  padMs: number;          // Margin around each event, also the fade in/out length
+}
+
+export const HEART_SUPPRESSION_DEFAULTS: HeartSuppressionOptions = {
+  cutoffHz: 150,
+  attenuationDb: 24,
+  padMs: 20
+};
+
+// Detection tuning (S1/S2 last roughly 50-150 ms and are never longer than ~300 ms)
+const ENVELOPE_WINDOW_MS = 20;
+const ENVELOPE_HOP_MS = 5;
+const ENVELOPE_THRESHOLD = 0.5;   // On the z-scored envelope
+const MIN_EVENT_MS = 30;
+const MAX_EVENT_MS = 300;
+const MERGE_GAP_MS = 50;
+const HEART_BAND_LOW_HZ = 20;
+
+// Average Shannon energy per frame, z-scored
+const shannonEnvelope = (band: Float32Array, sampleRate: number) => {
+  const peak = band.reduce((max, v) => Math.max(max, Math.abs(v)), 0) || 1;
+  const window = Math.max(1, Math.round(sampleRate * ENVELOPE_WINDOW_MS / 1000));
+  const hop = Math.max(1, Math.round(sampleRate * ENVELOPE_HOP_MS / 1000));
+
+  const envelope: number[] = [];
+  for (let start = 0; start + window <= band.length; start += hop) {
+    let energy = 0;
+    for (let i = start; i < start + window; i++) {
+      const x2 = (band[i] / peak) ** 2;
+      if (x2 > 0) energy -= x2 * Math.log(x2);
+    }
+    envelope.push(energy / window);
+  }
+
+  const mean = envelope.reduce((a, b) => a + b, 0) / (envelope.length || 1);
+  const std = Math.sqrt(envelope.reduce((a, b) => a + (b - mean) ** 2, 0) / (envelope.length || 1)) || 1;
+  return { values: envelope.map(e => (e - mean) / std), hopSeconds: hop / sampleRate, windowSeconds: window / sampleRate };
+};
+
+export const detectHeartSounds = (channels: Float32Array[], sampleRate: number, options: HeartSuppressionOptions = HEART_SUPPRESSION_DEFAULTS): HeartSoundEvent[] => {
+  const mono = mixToMono(channels);
+  const band = filtfilt(
+    filtfilt(mono, biquadCoefficients('lowpass', options.cutoffHz, sampleRate)),
+    biquadCoefficients('highpass', HEART_BAND_LOW_HZ, sampleRate)
+  );
+  const { values, hopSeconds, windowSeconds } = shannonEnvelope(band, sampleRate);
+
+  // Runs of frames above threshold, close runs merged
+  const runs: HeartSoundEvent[] = [];
+  values.forEach((v, i) => {
+    if (v < ENVELOPE_THRESHOLD) return;
+    const start = i * hopSeconds;
+    const end = start + windowSeconds;
+    const last = runs[runs.length - 1];
+    if (last && start - last.end <= MERGE_GAP_MS / 1000) last.end = end;
+    else runs.push({ start, end });
+  });
+
+  return runs.filter(r => {
+    const ms = (r.end - r.start) * 1000;
+    return ms >= MIN_EVENT_MS && ms <= MAX_EVENT_MS;
+  });
+};
+
+// Per-sample suppression weight: 1 inside (padded) events, raised-cosine fades of `padMs` outside them
+const eventWeights = (events: HeartSoundEvent[], length: number, sampleRate: number, padMs: number) => {
+  const weights = new Float32Array(length);
+  const pad = Math.round(sampleRate * padMs / 1000);
+  events.forEach(event => {
+    const start = Math.round(event.start * sampleRate);
+    const end = Math.round(event.end * sampleRate);
+    for (let i = Math.max(0, start - pad); i < Math.min(length, end + pad); i++) {
+      const fade = i < start ? (i - (start - pad)) / pad : i >= end ? ((end + pad) - i) / pad : 1;
+      const w = pad > 0 && fade < 1 ? 0.5 - 0.5 * Math.cos(Math.PI * fade) : 1;
+      weights[i] = Math.max(weights[i], w);
+    }
+  });
+  return weights;
+};
+
+export const suppressHeartSounds = (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: HeartSuppressionOptions = HEART_SUPPRESSION_DEFAULTS
+): { channels: Float32Array[]; events: HeartSoundEvent[] } => {
+  const events = detectHeartSounds(channels, sampleRate, options);
+  const weights = eventWeights(events, channels[0].length, sampleRate, options.padMs);
+  const removed = 1 - Math.pow(10, -options.attenuationDb / 20);
+  const lowpass = biquadCoefficients('lowpass', options.cutoffHz, sampleRate);
+
+  const output = channels.map(channel => {
+    const low = filtfilt(channel, lowpass);
+    const result = new Float32Array(channel.length);
+    for (let i = 0; i < channel.length; i++) {
+      result[i] = channel[i] - weights[i] * removed * low[i];
+    }
+    return result;
+  });
+
+  return { channels: output, events };
+};
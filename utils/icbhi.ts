@@ -0,0 +1,174 @@
+import { PatientContextData, RecordingLocation } from '../types';
+
+// --- UTILITY: SMART METADATA PARSER ---
+export const parseICBHIMetadata = (fileName: string): Partial<PatientContextData> | null => {
+  // ICBHI Standard: [PatientID]_[Index]_[Location]_[Mode]_[Equipment].wav
+  // Example: 157_1b1_Al_sc_Meditron.wav
+
+  // Remove extension
+  const nameClean = fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
+  const parts = nameClean.split('_');
+
+  // Basic validation: ICBHI filenames usually have 5 parts
+  if (parts.length < 5) return null;
+
+  const [patientId, index, locCode, modeCode, equipCode] = parts;
+
+  // 1. Map Location Codes
+  const locationMap: Record<string, string> = {
+    'Tc': RecordingLocation.TRACHEA,
+    'Al': RecordingLocation.ANTERIOR_LEFT,
+    'Ar': RecordingLocation.ANTERIOR_RIGHT,
+    'Pl': RecordingLocation.POSTERIOR_LEFT,
+    'Pr': RecordingLocation.POSTERIOR_RIGHT,
+    'Ll': RecordingLocation.LATERAL_LEFT,
+    'Lr': RecordingLocation.LATERAL_RIGHT,
+  };
+  const location = locationMap[locCode] || 'Unknown';
+
+  // 2. Map Acquisition Mode
+  const modeMap: Record<string, string> = {
+    'sc': 'Single Channel',
+    'mc': 'Multichannel'
+  };
+  const mode = modeMap[modeCode] || 'Unknown';
+
+  // 3. Map Equipment Codes
+  const equipMap: Record<string, string> = {
+    'AKGC417L': 'AKG C417L Microphone',
+    'LittC2SE': 'Littmann Classic II SE',
+    'Litt3200': 'Littmann 3200 Electronic',
+    'Meditron': 'WelchAllyn Meditron Master Elite'
+  };
+  const equipment = equipMap[equipCode] || equipCode; // Fallback to raw code if unknown
+
+  return {
+    id: patientId,
+    index: index,
+    location: location,
+    mode: mode,
+    equipment: equipment
+  };
+};
+
+// File name without its extension (the key that pairs a recording with its label file)
+export const getBaseName = (fileName: string) => fileName.substring(0, fileName.lastIndexOf('.')) || fileName;
+
+// Recordings taken simultaneously share the patient number and recording index
+// (e.g. 160_1b2_Al_mc_AKGC417L.wav and 160_1b2_Ar_mc_AKGC417L.wav).
+export const getMultichannelSetKey = (fileName: string): string | null => {
+  const metadata = parseICBHIMetadata(fileName);
+  return metadata && metadata.mode === 'Multichannel' ? `${metadata.id}_${metadata.index}` : null;
+};
+
+// Largest multichannel set among the files (two or more channels), ordered by chest location.
+// Returns an empty list when the files do not form a set.
+export const findMultichannelSet = (files: File[]): { file: File; location: string }[] => {
+  const sets = new Map<string, { file: File; location: string }[]>();
+  files.forEach(file => {
+    const key = getMultichannelSetKey(file.name);
+    if (!key) return;
+    const channel = { file, location: parseICBHIMetadata(file.name)?.location || RecordingLocation.UNKNOWN };
+    sets.set(key, [...(sets.get(key) || []), channel]);
+  });
+
+  const locationOrder: string[] = Object.values(RecordingLocation);
+  const largest = Array.from(sets.values()).sort((a, b) => b.length - a.length)[0] || [];
+  return largest.length < 2 ? [] : largest.sort((a, b) => locationOrder.indexOf(a.location) - locationOrder.indexOf(b.location));
+};
+
+export interface RecordingPair {
+  baseName: string;
+  audio: File;
+  labels: File | null;
+  metadata: Partial<PatientContextData> | null;
+}
+
+// Pair `*.wav` recordings with the `*.txt` label file of the same basename.
+// Returns the pairs (sorted by name) and the names of files that could not be used:
+// files that are neither .wav nor .txt, and label files without a recording.
+export const pairRecordingFiles = (files: File[]): { pairs: RecordingPair[]; unsupported: string[]; orphanLabels: string[] } => {
+  const audio = new Map<string, File>();
+  const labels = new Map<string, File>();
+  const unsupported: string[] = [];
+  const orphanLabels: string[] = [];
+
+  files.forEach(file => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.wav')) audio.set(getBaseName(file.name), file);
+    else if (name.endsWith('.txt')) labels.set(getBaseName(file.name), file);
+    else unsupported.push(file.name);
+  });
+
+  labels.forEach((file, baseName) => {
+    if (!audio.has(baseName)) orphanLabels.push(file.name);
+  });
+
+  const pairs = Array.from(audio.entries())
+    .map(([baseName, file]) => ({
+      baseName,
+      audio: file,
+      labels: labels.get(baseName) || null,
+      metadata: parseICBHIMetadata(file.name)
+    }))
+    .sort((a, b) => a.baseName.localeCompare(b.baseName));
+
+  return { pairs, unsupported, orphanLabels };
+};
+
+// --- PATIENT TABLES ---
+// Per-patient clinical fields from the ICBHI diagnosis and demographic files
+export type ICBHIPatientRecord = Pick<PatientContextData, 'diagnosis' | 'age' | 'sex' | 'bmi' | 'childWeight' | 'childHeight'>;
+
+export type ICBHIPatientTable = Record<string, ICBHIPatientRecord>;
+
+export interface PatientTableParseResult {
+  kind: 'diagnosis' | 'demographics';
+  records: ICBHIPatientTable;
+  skipped: number;  // Non-empty lines that did not start with a patient number (headers, junk)
+}
+
+const PATIENT_ID_REGEX = /^\d+$/;
+
+// "NA" marks a missing value in the demographic file
+const tableValue = (value: string | undefined) => !value || value.toUpperCase() === 'NA' ? '' : value;
+
+// Accepts both the challenge text files and the Kaggle CSV variants:
+//   diagnosis:    "101<tab>URTI"                      (patient_diagnosis.csv: "101,URTI")
+//   demographics: "101 3.00 F NA 19.0 99.0"           (id, age, sex, adult BMI, child weight kg, child height cm)
+// The delimiter is detected once per file. Comma / semicolon / tab files are split on each single
+// delimiter, so an empty field ("101,3,F,,19,99") keeps its column; only the space-separated text
+// format splits on runs of whitespace.
+export const parsePatientTable = (text: string): PatientTableParseResult => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const delimiter = [',', ';', '\t'].find(d => lines.some(line => line.includes(d)));
+  const rows = lines.map(line => delimiter ? line.split(delimiter).map(cell => cell.trim()) : line.trim().split(/\s+/));
+  const dataRows = rows.filter(cells => PATIENT_ID_REGEX.test(cells[0]));
+  const isDemographics = dataRows.length > 0 && dataRows.filter(cells => cells.length >= 4).length > dataRows.length / 2;
+
+  const records: ICBHIPatientTable = {};
+  dataRows.forEach(([id, ...rest]) => {
+    records[id] = isDemographics
+      ? {
+          age: tableValue(rest[0]),
+          sex: tableValue(rest[1]),
+          bmi: tableValue(rest[2]),
+          childWeight: tableValue(rest[3]),
+          childHeight: tableValue(rest[4])
+        }
+      : { diagnosis: rest.join(' ') };
+  });
+
+  return { kind: isDemographics ? 'demographics' : 'diagnosis', records, skipped: rows.length - dataRows.length };
+};
+
+// Combine tables by patient number; later tables fill in fields the earlier ones lack
+// (and update those they have a value for; a blank never clears an existing value)
+export const mergePatientTables = (base: ICBHIPatientTable, addition: ICBHIPatientTable): ICBHIPatientTable => {
+  const merged: ICBHIPatientTable = { ...base };
+  Object.entries(addition).forEach(([id, record]) => {
+    const values = Object.fromEntries(Object.entries(record).filter(([, value]) => value));
+    merged[id] = { ...merged[id], ...values };
+  });
+  return merged;
+};
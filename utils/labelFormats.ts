@@ -0,0 +1,509 @@
+import { RegionData } from '../types';
+
+// Display styles for the two ICBHI adventitious sound classes
+export const CLINICAL_REGION_STYLES: Record<'Wheeze' | 'Crackle', string> = {
+    Wheeze: 'rgba(239, 68, 68, 0.3)',
+    Crackle: 'rgba(234, 179, 8, 0.3)',
+};
+
+export type ClinicalClass = keyof typeof CLINICAL_REGION_STYLES;
+
+// Respiratory cycles are kept alongside the adventitious sounds as regions with content "Cycle".
+// They are the unit ICBHI scoring is defined on, so normal (0 0) cycles are preserved too.
+export const CYCLE_REGION_COLOR = 'rgba(148, 163, 184, 0.25)';
+
+export type AnnotationClass = ClinicalClass | 'Cycle';
+
+export const isCycleRegion = (region: RegionData) => region.content === 'Cycle';
+
+export const annotationColor = (cls: AnnotationClass) =>
+    cls === 'Cycle' ? CYCLE_REGION_COLOR : CLINICAL_REGION_STYLES[cls];
+
+// A single problem found while importing a label file. `line` is 1-based when known.
+export interface LabelParseIssue {
+    line?: number;
+    message: string;
+}
+
+export interface LabelParseResult {
+    regions: RegionData[];
+    issues: LabelParseIssue[];
+}
+
+export const formatParseIssue = (issue: LabelParseIssue) =>
+    issue.line !== undefined ? `Line ${issue.line}: ${issue.message}` : issue.message;
+
+// Build the clinical regions for one labelled segment. Free-text labels are matched
+// by keyword so "Crackle+Wheeze" (or ICBHI's "both") yields one region per class,
+// and "cycle" / "normal" mark a breath cycle without adventitious sounds.
+const classifyLabel = (label: string): AnnotationClass[] => {
+    const text = label.toLowerCase();
+    const classes: AnnotationClass[] = [];
+    if (text.includes('cycle') || text === 'normal') classes.push('Cycle');
+    if (text.includes('wheeze') || text === 'both') classes.push('Wheeze');
+    if (text.includes('crackle') || text === 'both') classes.push('Crackle');
+    return classes;
+};
+
+const buildClinicalRegions = (idBase: string, start: number, end: number, classes: AnnotationClass[]): RegionData[] =>
+    classes.map(cls => ({
+        id: `${idBase}-${cls.toLowerCase()}`,
+        start, end, content: cls, color: annotationColor(cls)
+    }));
+
+// Shared validation for timed segments coming from any importer
+const validateSegment = (start: number, end: number): string | null => {
+    if (isNaN(start) || isNaN(end)) return 'start/end are not numbers';
+    if (start < 0) return 'start time is negative';
+    if (end <= start) return 'end time is not after start time';
+    return null;
+};
+
+const isNumeric = (value: string | undefined) => value !== undefined && value.trim() !== '' && !isNaN(Number(value));
+
+// --- ICBHI ---
+// Format: Start | End | Crackles | Wheezes (tab or space delimited)
+// Example: 0.05  0.8  0  1
+export const parseICBHI = (text: string): LabelParseResult => {
+    const regions: RegionData[] = [];
+    const issues: LabelParseIssue[] = [];
+
+    text.split('\n').forEach((line, idx) => {
+        if (!line.trim()) return;
+        const parts = line.trim().split(/[\t\s]+/);
+
+        if (parts.length < 4) {
+            issues.push({ line: idx + 1, message: `expected 4 columns, found ${parts.length}` });
+            return;
+        }
+
+        const start = parseFloat(parts[0]);
+        const end = parseFloat(parts[1]);
+        const crackles = parseInt(parts[2]);
+        const wheezes = parseInt(parts[3]);
+
+        const invalid = validateSegment(start, end);
+        if (invalid) {
+            issues.push({ line: idx + 1, message: invalid });
+            return;
+        }
+        if (![0, 1].includes(crackles) || ![0, 1].includes(wheezes)) {
+            issues.push({ line: idx + 1, message: 'crackle/wheeze flags must be 0 or 1' });
+            return;
+        }
+
+        // Every line is a cycle; the flags add the adventitious sounds found within it
+        const classes: AnnotationClass[] = ['Cycle'];
+        if (wheezes === 1) classes.push('Wheeze');
+        if (crackles === 1) classes.push('Crackle');
+        regions.push(...buildClinicalRegions(`clinical-${idx}-${start}-${end}`, start, end, classes));
+    });
+
+    return { regions, issues };
+};
+
+// Reusable parser for external use (e.g., Demo loader)
+export const parseLabelString = (text: string): RegionData[] => parseICBHI(text).regions;
+
+// --- AUDACITY ---
+// Label track export: start <tab> end <tab> label. Lines starting with "\" carry
+// the optional spectral selection of the previous label and are ignored.
+const parseAudacity = (text: string): LabelParseResult => {
+    const regions: RegionData[] = [];
+    const issues: LabelParseIssue[] = [];
+
+    text.split('\n').forEach((line, idx) => {
+        if (!line.trim() || line.startsWith('\\')) return;
+        const [startText, endText, ...labelParts] = line.split('\t');
+        const start = parseFloat(startText);
+        const end = parseFloat(endText);
+        const label = labelParts.join('\t').trim();
+
+        const invalid = validateSegment(start, end);
+        if (invalid) {
+            issues.push({ line: idx + 1, message: invalid });
+            return;
+        }
+        const classes = classifyLabel(label);
+        if (classes.length === 0) {
+            issues.push({ line: idx + 1, message: `unrecognised label "${label}" (expected cycle/wheeze/crackle)` });
+            return;
+        }
+        regions.push(...buildClinicalRegions(`clinical-${idx}-${start}-${end}`, start, end, classes));
+    });
+
+    return { regions, issues };
+};
+
+// --- PRAAT TEXTGRID ---
+// Both the long ("xmin = 0") and short (one value per line) text formats reduce to the
+// same stream of numbers and quoted strings once keys and "[n]:" markers are ignored.
+interface TextGridToken {
+    value: string | number;
+    line: number;
+}
+
+const tokenizeTextGrid = (text: string): TextGridToken[] => {
+    const tokens: TextGridToken[] = [];
+    const tokenRegex = /"((?:[^"]|"")*)"|(?<![\w.])(-?\d+(?:\.\d+)?(?:[eE][-+]?\d+)?)(?![\w.])/g;
+
+    text.split('\n').forEach((rawLine, idx) => {
+        const line = rawLine.replace(/\[\d*\]/g, '');
+        let match;
+        while ((match = tokenRegex.exec(line)) !== null) {
+            tokens.push({
+                value: match[1] !== undefined ? match[1].replace(/""/g, '"') : parseFloat(match[2]),
+                line: idx + 1
+            });
+        }
+    });
+    return tokens;
+};
+
+const parseTextGrid = (text: string): LabelParseResult => {
+    const regions: RegionData[] = [];
+    const issues: LabelParseIssue[] = [];
+    const tokens = tokenizeTextGrid(text);
+    let pos = 0;
+
+    const next = () => tokens[pos++];
+    const nextNumber = () => {
+        const token = next();
+        if (!token || typeof token.value !== 'number') throw { line: token?.line, message: 'expected a number' };
+        return token.value;
+    };
+    const nextString = () => {
+        const token = next();
+        if (!token || typeof token.value !== 'string') throw { line: token?.line, message: 'expected a quoted string' };
+        return token.value;
+    };
+
+    try {
+        // Header: "ooTextFile" "TextGrid" xmin xmax tierCount
+        if (nextString() !== 'ooTextFile' || nextString() !== 'TextGrid') {
+            return { regions, issues: [{ line: 1, message: 'not a Praat TextGrid text file' }] };
+        }
+        nextNumber();
+        nextNumber();
+        const tierCount = nextNumber();
+
+        for (let tier = 0; tier < tierCount; tier++) {
+            const tierClass = nextString();
+            const tierName = nextString();
+            nextNumber();
+            nextNumber();
+            const count = nextNumber();
+
+            if (tierClass !== 'IntervalTier') {
+                // Point tiers carry (time, mark) pairs; they have no duration to import
+                for (let i = 0; i < count; i++) { nextNumber(); nextString(); }
+                issues.push({ message: `tier "${tierName}" is a ${tierClass} and was skipped` });
+                continue;
+            }
+
+            for (let i = 0; i < count; i++) {
+                const startToken = tokens[pos];
+                const start = nextNumber();
+                const end = nextNumber();
+                const label = nextString().trim();
+                if (!label) continue; // Unlabelled gaps between intervals
+
+                const invalid = validateSegment(start, end);
+                const classes = classifyLabel(label);
+                if (invalid) {
+                    issues.push({ line: startToken.line, message: `tier "${tierName}": ${invalid}` });
+                } else if (classes.length === 0) {
+                    issues.push({ line: startToken.line, message: `tier "${tierName}": unrecognised label "${label}"` });
+                } else {
+                    regions.push(...buildClinicalRegions(`clinical-${tier}-${i}-${start}-${end}`, start, end, classes));
+                }
+            }
+        }
+    } catch (err: any) {
+        issues.push({ line: err.line, message: `malformed TextGrid: ${err.message || 'unexpected end of file'}` });
+    }
+
+    return { regions, issues };
+};
+
+// --- CSV ---
+// Zero-based column indices for the generic CSV importer
+export interface CsvColumnMapping {
+    start: number;
+    end: number;
+    label: number;
+}
+
+const detectCsvDelimiter = (headerLine: string) =>
+    [',', ';', '\t'].reduce((best, d) => headerLine.split(d).length > headerLine.split(best).length ? d : best, ',');
+
+// Rows of quote-aware cells; a quoted cell may span lines (exported labels keep their line breaks).
+// Each row carries the line number it starts on, and blank rows are dropped.
+const readCsvRows = (text: string) => {
+    const firstLine = text.split(/\r?\n/).find(l => l.trim()) || '';
+    const delimiter = detectCsvDelimiter(firstLine);
+    const rows: { line: number; cells: string[] }[] = [];
+    let cells: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    let line = 1;
+    let rowLine = 1;
+
+    const endRow = () => {
+        cells.push(cell.trim());
+        if (cells.length > 1 || cells[0]) rows.push({ line: rowLine, cells });
+        cells = [];
+        cell = '';
+        rowLine = line;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '\n') line++;
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else cell += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            cells.push(cell.trim());
+            cell = '';
+        } else if (ch === '\n') {
+            endRow();
+        } else if (ch !== '\r' || text[i + 1] !== '\n') {
+            cell += ch;
+        }
+    }
+    endRow();
+    return rows;
+};
+
+// Column names for the mapping step plus a best guess at which column is which
+export const readCsvColumns = (text: string): { columns: string[]; hasHeader: boolean; guess: CsvColumnMapping } => {
+    const rows = readCsvRows(text);
+    const first = rows[0]?.cells || [];
+    const hasHeader = first.some(cell => !isNumeric(cell));
+    const columns = hasHeader ? first : first.map((_, i) => `Column ${i + 1}`);
+
+    const find = (pattern: RegExp, fallback: number) => {
+        const idx = columns.findIndex(c => pattern.test(c));
+        return idx >= 0 ? idx : Math.min(fallback, Math.max(0, columns.length - 1));
+    };
+
+    return {
+        columns,
+        hasHeader,
+        guess: {
+            start: find(/start|onset|begin|from|xmin/i, 0),
+            end: find(/end|offset|stop|to|xmax/i, 1),
+            label: find(/label|class|type|annotation|event|text/i, 2),
+        }
+    };
+};
+
+export const parseCSV = (text: string, mapping?: CsvColumnMapping): LabelParseResult => {
+    const regions: RegionData[] = [];
+    const issues: LabelParseIssue[] = [];
+    const { hasHeader, guess } = readCsvColumns(text);
+    const { start: startCol, end: endCol, label: labelCol } = mapping || guess;
+
+    readCsvRows(text).slice(hasHeader ? 1 : 0).forEach(({ line, cells }) => {
+        const start = parseFloat(cells[startCol]);
+        const end = parseFloat(cells[endCol]);
+        const label = cells[labelCol] || '';
+
+        const invalid = validateSegment(start, end);
+        if (invalid) {
+            issues.push({ line, message: invalid });
+            return;
+        }
+        const classes = classifyLabel(label);
+        if (classes.length === 0) {
+            issues.push({ line, message: `unrecognised label "${label}" (expected cycle/wheeze/crackle)` });
+            return;
+        }
+        regions.push(...buildClinicalRegions(`clinical-${line}-${start}-${end}`, start, end, classes));
+    });
+
+    return { regions, issues };
+};
+
+// --- JSON ---
+// A RegionData[] array as written by this app (id and color are optional)
+const parseJSON = (text: string): LabelParseResult => {
+    const regions: RegionData[] = [];
+    const issues: LabelParseIssue[] = [];
+
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (err: any) {
+        return { regions, issues: [{ message: `invalid JSON: ${err.message}` }] };
+    }
+    if (!Array.isArray(data)) {
+        return { regions, issues: [{ message: 'expected a JSON array of regions' }] };
+    }
+
+    data.forEach((entry: any, idx) => {
+        const where = `region ${idx + 1}`;
+        if (!entry || typeof entry !== 'object') {
+            issues.push({ message: `${where}: not an object` });
+            return;
+        }
+        const start = Number(entry.start);
+        const end = Number(entry.end);
+        const invalid = validateSegment(start, end);
+        if (invalid) {
+            issues.push({ message: `${where}: ${invalid}` });
+            return;
+        }
+        const classes = classifyLabel(String(entry.content ?? ''));
+        if (classes.length !== 1) {
+            issues.push({ message: `${where}: content must be "Cycle", "Wheeze" or "Crackle"` });
+            return;
+        }
+        regions.push({
+            id: typeof entry.id === 'string' ? entry.id : `clinical-${idx}-${start}-${end}-${classes[0].toLowerCase()}`,
+            start, end,
+            content: classes[0],
+            color: typeof entry.color === 'string' ? entry.color : annotationColor(classes[0])
+        });
+    });
+
+    return { regions, issues };
+};
+
+// --- IMPORTER REGISTRY ---
+export interface LabelImporter {
+    id: 'icbhi' | 'audacity' | 'textgrid' | 'csv' | 'json';
+    label: string;
+    extensions: string[];
+    // Content sniffing, used to disambiguate shared extensions (.txt) and unknown files
+    sniff: (text: string) => boolean;
+    parse: (text: string) => LabelParseResult;
+    // Importers that need the user to confirm a column mapping before parsing
+    requiresMapping?: boolean;
+}
+
+const firstDataLine = (text: string) => text.split('\n').find(l => l.trim() && !l.startsWith('\\')) || '';
+
+export const LABEL_IMPORTERS: LabelImporter[] = [
+    {
+        id: 'textgrid',
+        label: 'Praat TextGrid',
+        extensions: ['.textgrid'],
+        sniff: text => /"ooTextFile"/.test(text) && /"TextGrid"/.test(text),
+        parse: parseTextGrid,
+    },
+    {
+        id: 'json',
+        label: 'JSON Regions',
+        extensions: ['.json'],
+        sniff: text => text.trimStart().startsWith('['),
+        parse: parseJSON,
+    },
+    {
+        id: 'icbhi',
+        label: 'ICBHI',
+        extensions: ['.txt'],
+        sniff: text => {
+            const parts = firstDataLine(text).trim().split(/[\t\s]+/);
+            return parts.length === 4 && parts.every(isNumeric);
+        },
+        parse: parseICBHI,
+    },
+    {
+        id: 'audacity',
+        label: 'Audacity Labels',
+        extensions: ['.txt'],
+        sniff: text => {
+            const parts = firstDataLine(text).split('\t');
+            return parts.length >= 3 && isNumeric(parts[0]) && isNumeric(parts[1]) && !isNumeric(parts[2]);
+        },
+        parse: parseAudacity,
+    },
+    {
+        id: 'csv',
+        label: 'CSV',
+        extensions: ['.csv', '.tsv'],
+        sniff: text => /[,;]/.test(firstDataLine(text)),
+        parse: text => parseCSV(text),
+        requiresMapping: true,
+    },
+];
+
+export const LABEL_IMPORT_ACCEPT = Array.from(new Set(LABEL_IMPORTERS.flatMap(i => i.extensions))).join(',');
+
+// Pick an importer by extension first, letting content sniffing break ties between
+// formats that share an extension; fall back to sniffing alone for unknown extensions.
+export const detectLabelImporter = (fileName: string, text: string): LabelImporter | null => {
+    const ext = fileName.includes('.') ? fileName.substring(fileName.lastIndexOf('.')).toLowerCase() : '';
+    const byExtension = LABEL_IMPORTERS.filter(i => i.extensions.includes(ext));
+
+    if (byExtension.length === 1) return byExtension[0];
+    if (byExtension.length > 1) return byExtension.find(i => i.sniff(text)) || byExtension[0];
+    return LABEL_IMPORTERS.find(i => i.sniff(text)) || null;
+};
+
+// --- EXPORT ---
+export type LabelExportFormat = 'icbhi' | 'audacity' | 'csv';
+
+export const LABEL_EXPORT_FORMATS: Record<LabelExportFormat, { label: string; extension: string; mimeType: string }> = {
+    icbhi: { label: 'ICBHI', extension: '.txt', mimeType: 'text/plain' },
+    audacity: { label: 'Audacity', extension: '.txt', mimeType: 'text/plain' },
+    csv: { label: 'CSV', extension: '.csv', mimeType: 'text/csv' },
+};
+
+const formatSeconds = (t: number) => t.toFixed(3);
+
+// Inverse of parseICBHI: one line per cycle, wheeze + crackle regions merged into the
+// cycle containing their midpoint. Events outside any cycle become cycles of their own.
+const serializeICBHI = (regions: RegionData[]): string => {
+    const cycles = new Map<string, { start: number; end: number; crackles: number; wheezes: number }>();
+    const keyOf = (r: RegionData) => `${formatSeconds(r.start)}-${formatSeconds(r.end)}`;
+    const sorted = [...regions].sort((a, b) => a.start - b.start || a.end - b.end);
+    const cycleRegions = sorted.filter(isCycleRegion);
+
+    cycleRegions.forEach(c => cycles.set(keyOf(c), { start: c.start, end: c.end, crackles: 0, wheezes: 0 }));
+
+    sorted.filter(r => !isCycleRegion(r)).forEach(region => {
+        const mid = (region.start + region.end) / 2;
+        const owner = cycleRegions.find(c => mid >= c.start && mid < c.end) || region;
+        const key = keyOf(owner);
+        const cycle = cycles.get(key) || { start: owner.start, end: owner.end, crackles: 0, wheezes: 0 };
+        const content = region.content.toLowerCase();
+        if (content.includes('crackle')) cycle.crackles = 1;
+        if (content.includes('wheeze')) cycle.wheezes = 1;
+        cycles.set(key, cycle);
+    });
+
+    return Array.from(cycles.values())
+        .sort((a, b) => a.start - b.start)
+        .map(c => [formatSeconds(c.start), formatSeconds(c.end), c.crackles, c.wheezes].join('\t'))
+        .join('\n') + '\n';
+};
+
+// Audacity label track: start <tab> end <tab> label
+const serializeAudacity = (regions: RegionData[]): string =>
+    [...regions]
+        .sort((a, b) => a.start - b.start)
+        .map(r => [r.start.toFixed(6), r.end.toFixed(6), r.content].join('\t'))
+        .join('\n') + '\n';
+
+const escapeCsv = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const serializeCSV = (regions: RegionData[]): string => {
+    const rows = [...regions]
+        .sort((a, b) => a.start - b.start)
+        .map(r => [formatSeconds(r.start), formatSeconds(r.end), formatSeconds(r.end - r.start), escapeCsv(r.content)].join(','));
+    return ['start,end,duration,label', ...rows].join('\n') + '\n';
+};
+
+export const serializeLabels = (regions: RegionData[], format: LabelExportFormat): string => {
+    switch (format) {
+        case 'icbhi': return serializeICBHI(regions);
+        case 'audacity': return serializeAudacity(regions);
+        case 'csv': return serializeCSV(regions);
+    }
+};
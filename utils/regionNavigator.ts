@@ -0,0 +1,75 @@
+import { RegionData } from '../types';
+import { regionClass, overlapRatio } from './evaluation';
+import { AnnotationClass, ClinicalClass, isCycleRegion } from './labelFormats';
+
+// --- REGION NAVIGATOR ---
+// One flat, sortable list of every region on the timeline (clinical labels, Gemini, detector lanes)
+
+export interface RegionSourceGroup {
+  id: string;          // 'clinical', 'ai', or a detector lane id
+  label: string;       // e.g. "Clinical", "Gemini AI", "Detector: Crackles"
+  regions: RegionData[];
+}
+
+export type NavigatorClassFilter = 'All' | AnnotationClass | 'Other';
+
+export const NAVIGATOR_CLASS_FILTERS: NavigatorClassFilter[] = ['All', 'Wheeze', 'Crackle', 'Cycle', 'Other'];
+
+export interface NavigatorRow {
+  region: RegionData;
+  sourceId: string;
+  sourceLabel: string;
+  type: string;               // Class when known, else the region's content
+  cls: AnnotationClass | null;
+  notes: string;              // Anything in the content beyond the class
+  // Non-clinical wheeze/crackle regions: whether a clinical label of the same class overlaps it
+  // (at the agreement threshold). Null where it does not apply.
+  isCovered: boolean | null;
+}
+
+export type NavigatorSortKey = 'type' | 'start' | 'end' | 'duration' | 'source';
+
+const classOf = (region: RegionData): AnnotationClass | null => isCycleRegion(region) ? 'Cycle' : regionClass(region);
+
+const isCoveredBy = (region: RegionData, cls: ClinicalClass, clinical: RegionData[], threshold: number) =>
+  clinical.some(c => regionClass(c) === cls && overlapRatio(c, region) > 0 && overlapRatio(c, region) >= threshold);
+
+export const buildNavigatorRows = (groups: RegionSourceGroup[], overlapThreshold: number): NavigatorRow[] => {
+  const clinical = groups.find(g => g.id === 'clinical')?.regions || [];
+  return groups.flatMap(group => group.regions.map(region => {
+    const cls = classOf(region);
+    return {
+      region,
+      sourceId: group.id,
+      sourceLabel: group.label,
+      type: cls || region.content,
+      cls,
+      notes: cls && region.content !== cls ? region.content : '',
+      isCovered: group.id !== 'clinical' && (cls === 'Wheeze' || cls === 'Crackle')
+        ? isCoveredBy(region, cls, clinical, overlapThreshold)
+        : null
+    };
+  }));
+};
+
+export const matchesClassFilter = (row: NavigatorRow, filter: NavigatorClassFilter) =>
+  filter === 'All' || (filter === 'Other' ? row.cls === null : row.cls === filter);
+
+const sortValue = (row: NavigatorRow, key: NavigatorSortKey): number | string => {
+  switch (key) {
+    case 'type': return row.type;
+    case 'start': return row.region.start;
+    case 'end': return row.region.end;
+    case 'duration': return row.region.end - row.region.start;
+    case 'source': return row.sourceLabel;
+  }
+};
+
+// Ties fall back to start time, so equal types/sources stay in timeline order
+export const sortNavigatorRows = (rows: NavigatorRow[], key: NavigatorSortKey, ascending: boolean) =>
+  [...rows].sort((a, b) => {
+    const x = sortValue(a, key);
+    const y = sortValue(b, key);
+    const order = x < y ? -1 : x > y ? 1 : 0;
+    return (ascending ? order : -order) || a.region.start - b.region.start;
+  });
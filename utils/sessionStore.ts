@@ -0,0 +1,69 @@
+import { AnalysisSession, RegionData } from '../types';
+import { summarizeSite, SITE_FINDING_STYLES } from './examination';
+
+// --- LOCAL SESSION STORE (IndexedDB) ---
+// Session records and audio blobs live in separate stores so listing the history never loads audio.
+const DB_NAME = 'lung-listener';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+const AUDIO_STORE = 'audio';
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Run one transaction and resolve once it commits
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  run: (sessions: IDBObjectStore, audio: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction([SESSION_STORE, AUDIO_STORE], mode);
+    const request = run(tx.objectStore(SESSION_STORE), tx.objectStore(AUDIO_STORE));
+    tx.oncomplete = () => { db.close(); resolve(request ? request.result : undefined); };
+    tx.onerror = () => { db.close(); reject(tx.error); };
+    tx.onabort = () => { db.close(); reject(tx.error); };
+  });
+};
+
+export const saveSession = async (session: AnalysisSession, audio: Blob) => {
+  await withStores('readwrite', (sessions, audioStore) => {
+    sessions.put(session);
+    audioStore.put(audio, session.id);
+  });
+};
+
+// Newest first
+export const listSessions = async (): Promise<AnalysisSession[]> => {
+  const sessions = await withStores<AnalysisSession[]>('readonly', sessions => sessions.getAll());
+  return (sessions || []).sort((a, b) => b.date.localeCompare(a.date));
+};
+
+export const loadSessionAudio = async (id: string): Promise<Blob | null> => {
+  const audio = await withStores<Blob>('readonly', (_sessions, audioStore) => audioStore.get(id));
+  return audio || null;
+};
+
+export const deleteSession = async (id: string) => {
+  await withStores('readwrite', (sessions, audioStore) => {
+    sessions.delete(id);
+    audioStore.delete(id);
+  });
+};
+
+// One-line summary shown in the history list
+export const summarizeSession = (clinicalRegions: RegionData[], aiRegions: RegionData[] | undefined) => {
+  const site = summarizeSite(clinicalRegions, aiRegions);
+  const parts = [site ? `${SITE_FINDING_STYLES[site.finding].label} (${site.source === 'labels' ? 'labels' : 'AI'})` : 'Not analyzed'];
+  if (clinicalRegions.length > 0) parts.push(`${clinicalRegions.length} labels`);
+  if (aiRegions && aiRegions.length > 0) parts.push(`${aiRegions.length} AI regions`);
+  return parts.join(' · ');
+};
@@ -0,0 +1,123 @@
+import { AnnotationClass } from './labelFormats';
+
+// --- KEYBOARD SHORTCUTS ---
+// Every action the editor binds to a key, with its default keys. Bindings are stored per action
+// (several keys may trigger one action) and the user's remapping is kept in localStorage.
+
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'shuttleBack'
+  | 'shuttleStop'
+  | 'shuttleForward'
+  | 'nudgeBack'
+  | 'nudgeForward'
+  | 'nudgeBackLarge'
+  | 'nudgeForwardLarge'
+  | 'previousRegion'
+  | 'nextRegion'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomToFit'
+  | 'zoomToSelection'
+  | 'toggleMonitor'
+  | 'labelWheeze'
+  | 'labelCrackle'
+  | 'labelCycle'
+  | 'showHelp';
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+export const SHORTCUT_GROUPS = ['Playback', 'Navigation', 'View', 'Labeling', 'Help'] as const;
+
+export const SHORTCUT_ACTIONS: Record<ShortcutAction, { label: string; group: typeof SHORTCUT_GROUPS[number]; defaultKeys: string[] }> = {
+  togglePlay: { label: 'Play / Pause', group: 'Playback', defaultKeys: ['Space'] },
+  shuttleBack: { label: 'Shuttle reverse (again: faster)', group: 'Playback', defaultKeys: ['J'] },
+  shuttleStop: { label: 'Stop shuttle (speed back to 1×)', group: 'Playback', defaultKeys: ['K'] },
+  shuttleForward: { label: 'Shuttle forward (again: faster)', group: 'Playback', defaultKeys: ['L'] },
+  nudgeBack: { label: 'Nudge back 10 ms', group: 'Navigation', defaultKeys: ['ArrowLeft'] },
+  nudgeForward: { label: 'Nudge forward 10 ms', group: 'Navigation', defaultKeys: ['ArrowRight'] },
+  nudgeBackLarge: { label: 'Nudge back 100 ms', group: 'Navigation', defaultKeys: ['Shift+ArrowLeft'] },
+  nudgeForwardLarge: { label: 'Nudge forward 100 ms', group: 'Navigation', defaultKeys: ['Shift+ArrowRight'] },
+  previousRegion: { label: 'Previous region', group: 'Navigation', defaultKeys: ['P'] },
+  nextRegion: { label: 'Next region', group: 'Navigation', defaultKeys: ['N'] },
+  zoomIn: { label: 'Zoom in', group: 'View', defaultKeys: ['+', '='] },
+  zoomOut: { label: 'Zoom out', group: 'View', defaultKeys: ['-'] },
+  zoomToFit: { label: 'Zoom to fit', group: 'View', defaultKeys: ['0'] },
+  zoomToSelection: { label: 'Zoom to loop / selected region', group: 'View', defaultKeys: ['Z'] },
+  toggleMonitor: { label: 'Monitor raw / filtered', group: 'View', defaultKeys: ['M'] },
+  labelWheeze: { label: 'Label Wheeze', group: 'Labeling', defaultKeys: ['1'] },
+  labelCrackle: { label: 'Label Crackle', group: 'Labeling', defaultKeys: ['2'] },
+  labelCycle: { label: 'Label Cycle', group: 'Labeling', defaultKeys: ['3'] },
+  showHelp: { label: 'Show shortcuts', group: 'Help', defaultKeys: ['?'] },
+};
+
+// Class assigned by each labeling action
+export const LABEL_SHORTCUT_CLASSES: Partial<Record<ShortcutAction, AnnotationClass>> = {
+  labelWheeze: 'Wheeze',
+  labelCrackle: 'Crackle',
+  labelCycle: 'Cycle',
+};
+
+export const NUDGE_SECONDS = 0.01;
+export const NUDGE_LARGE_SECONDS = 0.1;
+// J / L shuttle: each press steps through these speeds in its direction. Media elements cannot
+// play backwards, so reverse shuttling moves the playhead back in silent steps.
+export const SHUTTLE_SPEEDS = [1, 2, 4];
+export const SHUTTLE_REVERSE_STEP_MS = 200;
+
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  Object.entries(SHORTCUT_ACTIONS).map(([action, { defaultKeys }]) => [action, defaultKeys])
+) as ShortcutBindings;
+
+const SHORTCUT_STORAGE_KEY = 'lung_listener_shortcuts';
+
+// Stored bindings over the defaults, so actions added later still get their default keys
+export const loadShortcutBindings = (): ShortcutBindings => {
+  try {
+    const stored = localStorage.getItem(SHORTCUT_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SHORTCUT_BINDINGS, ...JSON.parse(stored) } : DEFAULT_SHORTCUT_BINDINGS;
+  } catch (e) {
+    return DEFAULT_SHORTCUT_BINDINGS;
+  }
+};
+
+export const saveShortcutBindings = (bindings: ShortcutBindings) => {
+  try {
+    if (JSON.stringify(bindings) === JSON.stringify(DEFAULT_SHORTCUT_BINDINGS)) {
+      localStorage.removeItem(SHORTCUT_STORAGE_KEY);
+    } else {
+      localStorage.setItem(SHORTCUT_STORAGE_KEY, JSON.stringify(bindings));
+    }
+  } catch (e) {
+    console.warn("Could not persist keyboard shortcuts", e);
+  }
+};
+
+// Canonical key name: letters upper-cased, " " as "Space", modifiers as "Ctrl+" / "Alt+" / "Shift+".
+// Shift is only spelled out for letters and named keys; for symbols it is part of the character ("+", "?").
+// Null for bare modifier presses.
+export const keyFromEvent = (e: KeyboardEvent): string | null => {
+  if (['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  const isSymbol = e.key.length === 1 && e.key.toLowerCase() === e.key.toUpperCase() && e.key !== ' ';
+  return [
+    e.ctrlKey || e.metaKey ? 'Ctrl+' : '',
+    e.altKey ? 'Alt+' : '',
+    e.shiftKey && !isSymbol ? 'Shift+' : '',
+    key
+  ].join('');
+};
+
+export const findShortcutAction = (bindings: ShortcutBindings, key: string): ShortcutAction | null =>
+  (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action].includes(key)) || null;
+
+// Typing in a form field never triggers shortcuts
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// "Shift+ArrowLeft" -> "Shift+←" for display
+const KEY_SYMBOLS: Record<string, string> = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+export const formatShortcutKey = (key: string) => {
+  const [, modifiers, base] = key.match(/^((?:Ctrl\+|Alt\+|Shift\+)*)(.+)$/) || ['', '', key];
+  return `${modifiers}${KEY_SYMBOLS[base] || base}`;
+};
@@ -0,0 +1,104 @@
+import { fft } from './dsp';
+
+// --- SPECTRAL SUBTRACTION DENOISING ---
+// A noise profile (mean magnitude spectrum of a quiet stretch) is subtracted from every STFT frame
+// of the recording, keeping the original phase. Unlike biquads this removes broadband hiss inside
+// the wheeze band as long as it is stationary.
+
+export interface NoiseProfile {
+  frameSize: number;
+  sampleRate: number;
+  magnitudes: Float64Array;  // frameSize / 2 + 1 bins
+  frames: number;            // Frames averaged into the profile
+}
+
+export interface SpectralSubtractionOptions {
+  overSubtraction: number;  // Multiple of the noise profile removed (alpha)
+  spectralFloor: number;    // Fraction of the original magnitude always kept (beta), limits musical noise
+}
+
+export const SPECTRAL_SUBTRACTION_DEFAULTS: SpectralSubtractionOptions = {
+  overSubtraction: 2,
+  spectralFloor: 0.05
+};
+
+const FRAME_SECONDS = 0.025;
+const MIN_FRAME_SIZE = 256;
+
+// Power of two covering ~25 ms at the recording's sample rate
+export const frameSizeFor = (sampleRate: number) =>
+  Math.max(MIN_FRAME_SIZE, Math.pow(2, Math.ceil(Math.log2(sampleRate * FRAME_SECONDS))));
+
+// sqrt-Hann analysis and synthesis windows at 50% overlap reconstruct the input exactly
+const sqrtHann = (size: number) => Float64Array.from({ length: size }, (_, i) => Math.sqrt(0.5 - 0.5 * Math.cos(2 * Math.PI * i / size)));
+
+const frameSpectrum = (signal: Float32Array, offset: number, window: Float64Array) => {
+  const size = window.length;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < size; i++) re[i] = (signal[offset + i] || 0) * window[i];
+  fft(re, im);
+  return { re, im };
+};
+
+// Mean magnitude spectrum of [start, end) seconds, averaged over all channels
+export const captureNoiseProfile = (channels: Float32Array[], sampleRate: number, start: number, end: number): NoiseProfile | null => {
+  const frameSize = frameSizeFor(sampleRate);
+  const hop = frameSize / 2;
+  const window = sqrtHann(frameSize);
+  const first = Math.max(0, Math.floor(start * sampleRate));
+  const last = Math.min(channels[0].length, Math.floor(end * sampleRate)) - frameSize;
+
+  const magnitudes = new Float64Array(frameSize / 2 + 1);
+  let frames = 0;
+  channels.forEach(channel => {
+    for (let offset = first; offset <= last; offset += hop) {
+      const { re, im } = frameSpectrum(channel, offset, window);
+      for (let k = 0; k < magnitudes.length; k++) magnitudes[k] += Math.hypot(re[k], im[k]);
+      frames++;
+    }
+  });
+  if (frames === 0) return null;  // Selection shorter than one frame
+
+  magnitudes.forEach((_, k) => { magnitudes[k] /= frames; });
+  return { frameSize, sampleRate, magnitudes, frames };
+};
+
+export const spectralSubtract = (
+  channels: Float32Array[],
+  profile: NoiseProfile,
+  options: SpectralSubtractionOptions = SPECTRAL_SUBTRACTION_DEFAULTS
+): Float32Array[] => {
+  const { frameSize, magnitudes: noise } = profile;
+  const hop = frameSize / 2;
+  const window = sqrtHann(frameSize);
+  const bins = frameSize / 2 + 1;
+
+  return channels.map(channel => {
+    // Pad one hop on the left and one to two on the right (rounding up to whole hops, so the frame
+    // loop below reaches the end) so the first and last samples get full window overlap
+    const padded = new Float32Array(hop * (Math.ceil(channel.length / hop) + 2));
+    padded.set(channel, hop);
+    const output = new Float64Array(padded.length);
+
+    for (let offset = 0; offset + frameSize <= padded.length; offset += hop) {
+      const { re, im } = frameSpectrum(padded, offset, window);
+      for (let k = 0; k < bins; k++) {
+        const magnitude = Math.hypot(re[k], im[k]);
+        if (magnitude === 0) continue;
+        const cleaned = Math.max(magnitude - options.overSubtraction * noise[k], options.spectralFloor * magnitude);
+        const gain = cleaned / magnitude;
+        re[k] *= gain; im[k] *= gain;
+        // Keep the spectrum conjugate-symmetric so the inverse is real
+        if (k > 0 && k < frameSize / 2) {
+          re[frameSize - k] = re[k];
+          im[frameSize - k] = -im[k];
+        }
+      }
+      fft(re, im, true);
+      for (let i = 0; i < frameSize; i++) output[offset + i] += (re[i] / frameSize) * window[i];
+    }
+
+    return Float32Array.from(output.subarray(hop, hop + channel.length));
+  });
+};
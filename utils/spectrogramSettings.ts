@@ -0,0 +1,138 @@
+// --- SPECTROGRAM SETTINGS ---
+// Options for the wavesurfer Spectrogram plugin, editable per track. Wheezes (sustained tones
+// above ~400 Hz) want long windows for frequency resolution; crackles (5-20 ms transients) want
+// short windows with heavy overlap for time resolution.
+
+export type SpectrogramWindow = 'hann' | 'hamming' | 'blackman' | 'gauss' | 'rectangular';
+export type SpectrogramScale = 'linear' | 'logarithmic' | 'mel';
+export type SpectrogramColormap = 'plasma' | 'viridis' | 'magma' | 'grayscale';
+
+export interface SpectrogramSettings {
+  fftSamples: number;           // Power of two
+  windowFunc: SpectrogramWindow;
+  overlap: number | null;       // Fraction of the window; null lets the plugin fit it to the canvas width
+  frequencyMin: number;         // Hz
+  frequencyMax: number;
+  scale: SpectrogramScale;
+  ceilingDb: number;            // Level drawn at the top of the colormap
+  floorDb: number;              // Level drawn at the bottom (everything quieter is blank)
+  colormap: SpectrogramColormap;
+}
+
+export const SPECTROGRAM_DEFAULTS: SpectrogramSettings = {
+  fftSamples: 1024,
+  windowFunc: 'hann',
+  overlap: null,
+  frequencyMin: 0,
+  frequencyMax: 4000,
+  scale: 'mel',
+  ceilingDb: -20,
+  floorDb: -100,
+  colormap: 'plasma'
+};
+
+export const SPECTROGRAM_PRESETS: { label: string; settings: SpectrogramSettings }[] = [
+  { label: 'Default', settings: SPECTROGRAM_DEFAULTS },
+  {
+    label: 'Wheeze',
+    settings: { ...SPECTROGRAM_DEFAULTS, fftSamples: 2048, overlap: 0.75, frequencyMin: 100, frequencyMax: 2000, scale: 'linear', colormap: 'viridis' }
+  },
+  {
+    label: 'Crackle',
+    settings: { ...SPECTROGRAM_DEFAULTS, fftSamples: 256, windowFunc: 'hamming', overlap: 0.875, frequencyMin: 0, frequencyMax: 4000, scale: 'linear', floorDb: -80, colormap: 'magma' }
+  },
+];
+
+export const FFT_SIZES = [256, 512, 1024, 2048, 4096];
+export const OVERLAP_OPTIONS: (number | null)[] = [null, 0.5, 0.75, 0.875];
+export const SPECTROGRAM_WINDOWS: SpectrogramWindow[] = ['hann', 'hamming', 'blackman', 'gauss', 'rectangular'];
+export const SPECTROGRAM_SCALES: Record<SpectrogramScale, string> = { linear: 'Linear', logarithmic: 'Log', mel: 'Mel' };
+
+// --- COLORMAPS ---
+// Generate a Plasma-like colormap (Blue -> Purple -> Red -> Yellow)
+const getPlasmaColormap = () => {
+    const colors = [];
+    for (let i = 0; i < 256; i++) {
+        const t = i / 255;
+        let r = 0, g = 0, b = 0;
+
+        if (t < 0.25) {
+            // Blue -> Purple
+            const localT = t / 0.25;
+            r = Math.floor(128 * localT);
+            g = 0;
+            b = Math.floor(255 - (127 * localT));
+        } else if (t < 0.5) {
+            // Purple -> Red
+            const localT = (t - 0.25) / 0.25;
+            r = Math.floor(128 + (127 * localT));
+            g = 0;
+            b = Math.floor(128 - (128 * localT));
+        } else if (t < 0.75) {
+            // Red -> Orange
+            const localT = (t - 0.5) / 0.25;
+            r = 255;
+            g = Math.floor(165 * localT);
+            b = 0;
+        } else {
+            // Orange -> Yellow
+            const localT = (t - 0.75) / 0.25;
+            r = 255;
+            g = Math.floor(165 + (90 * localT));
+            b = 0;
+        }
+        colors.push([r / 255, g / 255, b / 255, 1]);
+    }
+    return colors;
+};
+
+// 256-entry map linearly interpolated between evenly spaced hex anchors
+const interpolateColormap = (anchors: string[]) => {
+  const rgb = anchors.map(hex => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255));
+  return Array.from({ length: 256 }, (_, i) => {
+    const position = (i / 255) * (rgb.length - 1);
+    const index = Math.min(Math.floor(position), rgb.length - 2);
+    const t = position - index;
+    return [...rgb[index].map((c, k) => c + (rgb[index + 1][k] - c) * t), 1];
+  });
+};
+
+// Viridis and magma sampled from matplotlib at ninths
+const VIRIDIS = ['#440154', '#472c7a', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'];
+const MAGMA = ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55064', '#fb8761', '#fec287', '#fcfdbf'];
+
+export const SPECTROGRAM_COLORMAPS: Record<SpectrogramColormap, { label: string; colors: number[][] }> = {
+  plasma: { label: 'Plasma', colors: getPlasmaColormap() },
+  viridis: { label: 'Viridis', colors: interpolateColormap(VIRIDIS) },
+  magma: { label: 'Magma', colors: interpolateColormap(MAGMA) },
+  grayscale: { label: 'Grayscale', colors: interpolateColormap(['#000000', '#ffffff']) },
+};
+
+// Vertical position (0 = top, 1 = bottom) of a frequency on the rendered spectrogram, using the
+// plugin's scale formulas. Null when the frequency is outside the displayed range.
+const toScale = (hz: number, scale: SpectrogramScale) =>
+  scale === 'mel' ? 2595 * Math.log10(1 + hz / 700) : scale === 'logarithmic' ? Math.log10(Math.max(1, hz)) : hz;
+
+export const frequencyToSpectrogramY = (hz: number, settings: SpectrogramSettings) => {
+  if (hz < settings.frequencyMin || hz > settings.frequencyMax) return null;
+  const min = toScale(settings.frequencyMin, settings.scale);
+  const max = toScale(settings.frequencyMax, settings.scale);
+  return 1 - (toScale(hz, settings.scale) - min) / (max - min);
+};
+
+// Invalid settings (mid-edit) are not applied; the track keeps its last valid spectrogram
+export const isValidSpectrogramSettings = (settings: SpectrogramSettings) =>
+  settings.frequencyMin >= 0 && settings.frequencyMax > settings.frequencyMin && settings.ceilingDb > settings.floorDb;
+
+// Settings -> Spectrogram plugin options (gainDB is the level drawn white, rangeDB the span below it)
+export const toSpectrogramOptions = (settings: SpectrogramSettings) => ({
+  fftSamples: settings.fftSamples,
+  windowFunc: settings.windowFunc,
+  noverlap: settings.overlap === null ? undefined : Math.min(settings.fftSamples - 1, Math.round(settings.fftSamples * settings.overlap)),
+  frequencyMin: settings.frequencyMin,
+  frequencyMax: settings.frequencyMax,
+  scale: settings.scale,
+  gainDB: -settings.ceilingDb,
+  rangeDB: Math.max(1, settings.ceilingDb - settings.floorDb),
+  colorMap: SPECTROGRAM_COLORMAPS[settings.colormap].colors
+});
@@ -0,0 +1,43 @@
+import { TimeSelection } from '../types';
+
+// --- TRACK VIEWPORT ---
+// Every track shares one view: a zoom (pixels per second) and a left edge that either follows
+// the playhead (null) or stays where the user scrolled it.
+
+export const MIN_ZOOM = 1;                  // Pixels per second; low enough to fit a 15 minute recording
+export const MAX_ZOOM = 10000;              // Sample-level: a 1 ms crackle deflection spans 10 px
+export const ZOOM_STEP = 1.5;               // Factor per zoom-in / zoom-out step
+export const WHEEL_ZOOM_RATE = 0.002;       // Zoom factor e^(-rate) per wheel pixel
+const SELECTION_PADDING = 0.05;             // Fraction of the selection shown on either side
+
+export const clampZoom = (zoom: number) => Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+
+// The span the tracks show in a viewport `width` px wide. Following the playhead keeps it centred,
+// except near the ends of the file (the same rule the timeline and wavesurfer's autoCenter use).
+export const visibleWindow = (
+  duration: number,
+  currentTime: number,
+  zoom: number,
+  width: number,
+  viewStart: number | null
+): TimeSelection => {
+  const visibleDuration = zoom > 0 && width > 0 ? Math.min(duration, width / zoom) : duration;
+  const maxStart = Math.max(0, duration - visibleDuration);
+  const start = Math.min(Math.max(0, viewStart ?? currentTime - visibleDuration / 2), maxStart);
+  return { start, end: start + visibleDuration };
+};
+
+// New left edge that keeps `anchorTime` under the same pixel (`anchorX` from the viewport's left) after zooming
+export const zoomAround = (anchorTime: number, anchorX: number, zoom: number) => Math.max(0, anchorTime - anchorX / zoom);
+
+// Zoom and left edge that fit `span` (with a little padding) into `width` px, centred on it
+// when the zoom limits keep it from filling the view exactly
+export const fitSpan = (span: TimeSelection, width: number) => {
+  const length = Math.max(span.end - span.start, 1e-3);
+  const zoom = clampZoom(width / (length * (1 + 2 * SELECTION_PADDING)));
+  return { zoom, start: Math.max(0, (span.start + span.end) / 2 - width / zoom / 2) };
+};
+
+// Wheel deltas in pixels (line / page modes scaled to roughly the same size)
+export const wheelDeltaPixels = (e: WheelEvent, delta: number) =>
+  e.deltaMode === 1 ? delta * 16 : e.deltaMode === 2 ? delta * 400 : delta;
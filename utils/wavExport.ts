@@ -0,0 +1,136 @@
+import { RegionData, TimeSelection } from '../types';
+import { getChannels, createAudioBuffer } from './audioDecode';
+
+// --- WAV ENCODING ---
+// 16/24-bit integer PCM, or 32-bit IEEE float (format tag 3)
+export type WavBitDepth = 16 | 24 | 32;
+
+export const WAV_BIT_DEPTHS: Record<WavBitDepth, string> = {
+  16: '16-bit PCM',
+  24: '24-bit PCM',
+  32: '32-bit Float'
+};
+
+export const encodeWav = (channels: Float32Array[], sampleRate: number, bitDepth: WavBitDepth = 16): Blob => {
+  const numOfChan = channels.length;
+  const length = channels[0]?.length || 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numOfChan * bytesPerSample;
+  const dataLength = length * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(buffer);
+
+  view.setUint32(0, 0x46464952, true);                // "RIFF"
+  view.setUint32(4, 36 + dataLength, true);           // file length - 8
+  view.setUint32(8, 0x45564157, true);                // "WAVE"
+  view.setUint32(12, 0x20746d66, true);               // "fmt " chunk
+  view.setUint32(16, 16, true);                       // length = 16
+  view.setUint16(20, bitDepth === 32 ? 3 : 1, true);  // IEEE float / PCM
+  view.setUint16(22, numOfChan, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);  // avg. bytes/sec
+  view.setUint16(32, blockAlign, true);               // block-align
+  view.setUint16(34, bitDepth, true);
+  view.setUint32(36, 0x61746164, true);               // "data" - chunk
+  view.setUint32(40, dataLength, true);               // chunk length
+
+  let offset = 44;
+  for (let pos = 0; pos < length; pos++) {
+    for (let i = 0; i < numOfChan; i++) {
+      const sample = Math.max(-1, Math.min(1, channels[i][pos]));
+      if (bitDepth === 32) {
+        view.setFloat32(offset, sample, true);
+      } else if (bitDepth === 24) {
+        const value = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7fffff);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+      } else {
+        view.setInt16(offset, (0.5 + sample < 0 ? sample * 32768 : sample * 32767) | 0, true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// 16-bit WAV of the first `len` frames, used for the derived tracks
+export const bufferToWave = (abuffer: AudioBuffer, len: number = abuffer.length) =>
+  encodeWav(getChannels(abuffer).map(c => c.subarray(0, len)), abuffer.sampleRate, 16);
+
+// --- EXPORT OPTIONS ---
+export type WavExportRange = 'full' | 'selection' | 'regions';
+
+export interface WavExportOptions {
+  bitDepth: WavBitDepth;
+  mono: boolean;               // Downmix all channels to one
+  sampleRate: number | null;   // Null keeps the recording's rate
+  range: WavExportRange;
+  selection: TimeSelection;    // Used when range is 'selection'
+}
+
+// ICBHI recordings are distributed at 4 kHz, 10 kHz and 44.1 kHz
+export const EXPORT_SAMPLE_RATES = [4000, 8000, 10000, 16000, 22050, 44100, 48000];
+
+export interface WavClip {
+  fileName: string;
+  blob: Blob;
+}
+
+const downmix = (channels: Float32Array[]) => {
+  if (channels.length === 1) return channels;
+  const mono = new Float32Array(channels[0].length);
+  channels.forEach(channel => channel.forEach((v, i) => { mono[i] += v / channels.length; }));
+  return [mono];
+};
+
+// The browser's resampler (band-limited) via an offline render at the target rate
+const resample = async (channels: Float32Array[], fromRate: number, toRate: number) => {
+  if (fromRate === toRate) return channels;
+  const length = Math.max(1, Math.round(channels[0].length * toRate / fromRate));
+  const offlineCtx = new OfflineAudioContext(channels.length, length, toRate);
+  const source = offlineCtx.createBufferSource();
+  source.buffer = createAudioBuffer(channels, fromRate);
+  source.connect(offlineCtx.destination);
+  source.start();
+  return getChannels(await offlineCtx.startRendering());
+};
+
+const sliceChannels = (channels: Float32Array[], sampleRate: number, start: number, end: number) => {
+  const from = Math.max(0, Math.floor(start * sampleRate));
+  const to = Math.min(channels[0].length, Math.ceil(end * sampleRate));
+  return channels.map(c => c.slice(from, Math.max(from, to)));
+};
+
+const safeName = (text: string) => text.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase();
+
+// One clip for 'full'/'selection', one per region (in time order) for 'regions'
+export const exportWavClips = async (
+  buffer: AudioBuffer,
+  baseName: string,
+  options: WavExportOptions,
+  regions: RegionData[] = []
+): Promise<WavClip[]> => {
+  let channels = getChannels(buffer);
+  if (options.mono) channels = downmix(channels);
+  const sampleRate = options.sampleRate || buffer.sampleRate;
+  channels = await resample(channels, buffer.sampleRate, sampleRate);
+
+  const spans = options.range === 'full'
+    ? [{ start: 0, end: buffer.duration, name: baseName }]
+    : options.range === 'selection'
+      ? [{ ...options.selection, name: `${baseName}_${options.selection.start.toFixed(2)}-${options.selection.end.toFixed(2)}s` }]
+      : [...regions].sort((a, b) => a.start - b.start).map((r, i) => ({
+          start: r.start,
+          end: r.end,
+          name: `${baseName}_${String(i + 1).padStart(3, '0')}_${safeName(r.content) || 'region'}`
+        }));
+
+  return spans
+    .filter(span => span.end > span.start)
+    .map(span => ({
+      fileName: `${span.name}.wav`,
+      blob: encodeWav(sliceChannels(channels, sampleRate, span.start, span.end), sampleRate, options.bitDepth)
+    }));
+};
@@ -0,0 +1,128 @@
+// --- WAV DECODING WORKER ---
+// decodeAudioData is only available on the main thread, so RIFF/WAV (the format of every ICBHI
+// recording and of the derived tracks) is parsed here instead. Other formats return null and
+// fall back to the browser decoder.
+
+export interface DecodedPcm {
+  channels: Float32Array[];
+  sampleRate: number;
+}
+
+// Runs inside the worker: it is stringified, so it must not reference anything outside itself
+function wavWorkerMain() {
+  const scope = self as unknown as {
+    onmessage: (e: MessageEvent<{ id: number; data: ArrayBuffer }>) => void;
+    postMessage: (message: unknown, transfer?: Transferable[]) => void;
+  };
+
+  const decode = (data: ArrayBuffer) => {
+    const view = new DataView(data);
+    if (data.byteLength < 12 || view.getUint32(0, true) !== 0x46464952 || view.getUint32(8, true) !== 0x45564157) return null;
+
+    let format = 0, numChannels = 0, sampleRate = 0, bitsPerSample = 0;
+    let dataOffset = -1, dataLength = 0;
+    for (let pos = 12; pos + 8 <= data.byteLength;) {
+      const id = view.getUint32(pos, true);
+      const size = view.getUint32(pos + 4, true);
+      if (id === 0x20746d66) {          // "fmt "
+        format = view.getUint16(pos + 8, true);
+        numChannels = view.getUint16(pos + 10, true);
+        sampleRate = view.getUint32(pos + 12, true);
+        bitsPerSample = view.getUint16(pos + 22, true);
+        if (format === 0xfffe && size >= 26) format = view.getUint16(pos + 32, true); // WAVE_FORMAT_EXTENSIBLE sub-format
+      } else if (id === 0x61746164) {   // "data"
+        dataOffset = pos + 8;
+        dataLength = Math.min(size, data.byteLength - dataOffset);
+        break;
+      }
+      pos += 8 + size + (size % 2);     // Chunks are word-aligned
+    }
+
+    const isPcm = format === 1 && [8, 16, 24, 32].includes(bitsPerSample);
+    const isFloat = format === 3 && (bitsPerSample === 32 || bitsPerSample === 64);
+    if (dataOffset < 0 || numChannels === 0 || sampleRate === 0 || (!isPcm && !isFloat)) return null;
+
+    const bytesPerSample = bitsPerSample / 8;
+    const frames = Math.floor(dataLength / (bytesPerSample * numChannels));
+    const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+    let offset = dataOffset;
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < numChannels; c++) {
+        let sample: number;
+        if (isFloat) sample = bitsPerSample === 32 ? view.getFloat32(offset, true) : view.getFloat64(offset, true);
+        else if (bitsPerSample === 8) sample = (view.getUint8(offset) - 128) / 128;
+        else if (bitsPerSample === 16) sample = view.getInt16(offset, true) / 32768;
+        else if (bitsPerSample === 24) sample = ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) / 8388608;
+        else sample = view.getInt32(offset, true) / 2147483648;
+        channels[c][i] = sample;
+        offset += bytesPerSample;
+      }
+    }
+    return { channels, sampleRate };
+  };
+
+  scope.onmessage = (e) => {
+    try {
+      const result = decode(e.data.data);
+      scope.postMessage({ id: e.data.id, result }, result ? result.channels.map(c => c.buffer) : []);
+    } catch (error: any) {
+      scope.postMessage({ id: e.data.id, error: error?.message || 'WAV decoding failed' });
+    }
+  };
+}
+
+// One worker for the app lifetime, created on first use (and again after it fails)
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (result: DecodedPcm | null) => void; timer: number }>();
+
+const WORKER_TIMEOUT_MS = 30000;
+
+// Every outcome other than a decoded WAV resolves null, so the caller falls back to the browser decoder
+const settle = (id: number, result: DecodedPcm | null) => {
+  const request = pending.get(id);
+  if (!request) return;
+  pending.delete(id);
+  window.clearTimeout(request.timer);
+  request.resolve(result);
+};
+
+// A worker that failed to start (e.g. blob workers blocked by CSP) or crashed: settle everything
+// waiting on it and start a fresh one next time
+const dropWorker = (reason: string) => {
+  console.warn(`WAV worker unavailable (${reason}); using the browser decoder.`);
+  worker?.terminate();
+  worker = null;
+  [...pending.keys()].forEach(id => settle(id, null));
+};
+
+const getWorker = () => {
+  if (!worker) {
+    const source = `(${wavWorkerMain.toString()})();`;
+    worker = new Worker(URL.createObjectURL(new Blob([source], { type: 'text/javascript' })));
+    worker.onmessage = (e: MessageEvent<{ id: number; result?: DecodedPcm | null; error?: string }>) => {
+      if (e.data.error) console.warn(`WAV worker: ${e.data.error}`);
+      settle(e.data.id, e.data.result || null);
+    };
+    worker.onerror = (e) => dropWorker(e.message || 'worker error');
+    worker.onmessageerror = () => dropWorker('unreadable message');
+  }
+  return worker;
+};
+
+// Transfers `data` to the worker (it is detached afterwards). Resolves null when it is not a supported WAV,
+// or when the worker fails or does not answer in time.
+export const decodeWavInWorker = (data: ArrayBuffer): Promise<DecodedPcm | null> =>
+  new Promise((resolve) => {
+    const id = nextRequestId++;
+    const timer = window.setTimeout(() => {
+      console.warn('WAV worker timed out; using the browser decoder.');
+      settle(id, null);
+    }, WORKER_TIMEOUT_MS);
+    pending.set(id, { resolve, timer });
+    try {
+      getWorker().postMessage({ id, data }, [data]);
+    } catch (error: any) {
+      dropWorker(error?.message || 'could not start');
+    }
+  });
@@ -0,0 +1,131 @@
+import { RegionData } from '../types';
+import { fft, mixToMono } from './dsp';
+import { annotationColor } from './labelFormats';
+
+// --- WHEEZE DETECTOR ---
+// Wheezes are continuous "musical" sounds: a spectral peak that stands well above the rest of
+// the band and keeps roughly the same frequency from frame to frame. Each STFT frame gets its
+// strongest peak; peaks that are tonal enough and continue the previous frame's frequency are
+// chained into tracks, and tracks lasting at least `minDurationMs` become wheeze regions.
+
+export interface WheezeDetectorOptions {
+  bandLowHz: number;
+  bandHighHz: number;
+  tonalityDb: number;        // Peak power above the band median
+  maxJumpHz: number;         // Largest frame-to-frame frequency change within one track
+  minDurationMs: number;
+  maxGapFrames: number;      // Frames a track may lose its peak and still continue
+}
+
+export const WHEEZE_DETECTOR_DEFAULTS: WheezeDetectorOptions = {
+  bandLowHz: 100,
+  bandHighHz: 2000,
+  tonalityDb: 15,
+  maxJumpHz: 60,
+  minDurationMs: 100,
+  maxGapFrames: 1
+};
+
+export interface ContourPoint {
+  time: number;       // Seconds (frame centre)
+  frequency: number;  // Hz
+}
+
+export interface WheezeEvent {
+  region: RegionData;
+  frequency: number;         // Median of the contour
+  duration: number;          // Seconds
+  contour: ContourPoint[];
+}
+
+const FRAME_SECONDS = 0.064;  // Long window: wheezes need frequency resolution, not time resolution
+const HOP_FRACTION = 0.25;
+
+// Strongest bin in the band, refined by parabolic interpolation of the log spectrum
+const findPeak = (power: Float64Array, fromBin: number, toBin: number) => {
+  let peak = fromBin;
+  for (let k = fromBin + 1; k <= toBin; k++) if (power[k] > power[peak]) peak = k;
+  const [a, b, c] = [power[peak - 1], power[peak], power[peak + 1]].map(p => 10 * Math.log10((p ?? power[peak]) + 1e-20));
+  const denominator = a - 2 * b + c;
+  const offset = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, 0.5 * (a - c) / denominator)) : 0;
+  return { bin: peak + offset, power: power[peak] };
+};
+
+const medianOf = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+
+export const detectWheezes = (
+  channels: Float32Array[],
+  sampleRate: number,
+  options: WheezeDetectorOptions = WHEEZE_DETECTOR_DEFAULTS
+): WheezeEvent[] => {
+  const signal = mixToMono(channels);
+  const frameSize = Math.pow(2, Math.round(Math.log2(sampleRate * FRAME_SECONDS)));
+  const hop = Math.round(frameSize * HOP_FRACTION);
+  const window = Float64Array.from({ length: frameSize }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / frameSize));
+  const binHz = sampleRate / frameSize;
+  const fromBin = Math.max(1, Math.ceil(options.bandLowHz / binHz));
+  const toBin = Math.min(frameSize / 2 - 1, Math.floor(options.bandHighHz / binHz));
+  if (toBin <= fromBin) return [];
+
+  // Tonal peak per frame (null when the frame has none)
+  const peaks: (ContourPoint | null)[] = [];
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const power = new Float64Array(frameSize / 2 + 1);
+  const bandPower: number[] = [];
+  for (let offset = 0; offset + frameSize <= signal.length; offset += hop) {
+    for (let i = 0; i < frameSize; i++) { re[i] = signal[offset + i] * window[i]; im[i] = 0; }
+    fft(re, im);
+    bandPower.length = 0;
+    for (let k = 0; k < power.length; k++) {
+      power[k] = re[k] * re[k] + im[k] * im[k];
+      if (k >= fromBin && k <= toBin) bandPower.push(power[k]);
+    }
+    const peak = findPeak(power, fromBin, toBin);
+    const tonality = 10 * Math.log10((peak.power + 1e-20) / (medianOf(bandPower) + 1e-20));
+    peaks.push(tonality >= options.tonalityDb
+      ? { time: (offset + frameSize / 2) / sampleRate, frequency: peak.bin * binHz }
+      : null);
+  }
+
+  // Chain peaks with continuous frequency into tracks
+  const tracks: ContourPoint[][] = [];
+  let current: ContourPoint[] = [];
+  let missed = 0;
+  const closeTrack = () => {
+    if (current.length > 0) tracks.push(current);
+    current = [];
+    missed = 0;
+  };
+  peaks.forEach(point => {
+    const last = current[current.length - 1];
+    if (point && (!last || Math.abs(point.frequency - last.frequency) <= options.maxJumpHz)) {
+      current.push(point);
+      missed = 0;
+    } else if (!point && last && missed < options.maxGapFrames) {
+      missed++;
+    } else {
+      closeTrack();
+      if (point) current.push(point);
+    }
+  });
+  closeTrack();
+
+  const halfFrame = frameSize / 2 / sampleRate;
+  return tracks
+    .map(contour => ({ contour, start: contour[0].time - halfFrame, end: contour[contour.length - 1].time + halfFrame }))
+    .filter(t => t.contour.length > 1 && (t.contour[t.contour.length - 1].time - t.contour[0].time) * 1000 >= options.minDurationMs)
+    .map((t, i) => {
+      const start = Math.max(0, t.start);
+      const end = Math.min(signal.length / sampleRate, t.end);
+      return {
+        region: { id: `detector-wheeze-${i}`, start, end, content: 'Wheeze', color: annotationColor('Wheeze') },
+        frequency: medianOf(t.contour.map(p => p.frequency)),
+        duration: end - start,
+        contour: t.contour
+      };
+    });
+};